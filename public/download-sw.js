@@ -0,0 +1,57 @@
+// Service worker serving streamed downloads for saveStream.ts, in browsers without the
+// File System Access API. The page registers a download with a MessagePort, then opens
+// <scope><id> in a hidden iframe; the response pulls its chunks from the page over that port.
+
+const downloads = new Map();
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'download') return;
+  const { id, name, size } = event.data;
+  downloads.set(id, { name, size, port: event.ports[0] });
+});
+
+self.addEventListener('fetch', (event) => {
+  const { url } = event.request;
+  if (!url.startsWith(self.registration.scope)) return;
+
+  const id = url.slice(self.registration.scope.length);
+  const download = downloads.get(id);
+  if (!download) return;
+  downloads.delete(id);
+
+  const { port } = download;
+  const stream = new ReadableStream({
+    pull(controller) {
+      return new Promise((resolve) => {
+        port.onmessage = ({ data }) => {
+          if (data.type === 'chunk') {
+            controller.enqueue(data.chunk);
+          } else if (data.type === 'end') {
+            controller.close();
+            port.close();
+          } else if (data.type === 'error') {
+            controller.error(new Error(data.message));
+            port.close();
+          }
+          resolve();
+        };
+        port.postMessage({ type: 'pull' });
+      });
+    },
+    cancel() {
+      port.postMessage({ type: 'cancel' });
+      port.close();
+    }
+  });
+
+  const headers = {
+    'Content-Type': 'application/octet-stream',
+    'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(download.name)}`
+  };
+  if (download.size) headers['Content-Length'] = String(download.size);
+
+  event.respondWith(new Response(stream, { headers }));
+});
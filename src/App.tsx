@@ -6,6 +6,7 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { FileDownload } from "@/components/FileDownload";
+import { SecretNoteView } from "@/components/SecretNoteView";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
 import Signup from "./pages/Signup"; 
@@ -35,6 +36,7 @@ const App = () => (
               </ProtectedRoute>
             } />
             <Route path="/f/:fileId" element={<FileDownload />} />
+            <Route path="/s/:fileId" element={<SecretNoteView />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -37,6 +37,7 @@ export const ActivityLog: React.FC = () => {
       case 'download':
         return <Download className="w-4 h-4" />;
       case 'delete':
+      case 'purge':
         return <Trash2 className="w-4 h-4" />;
       default:
         return <Activity className="w-4 h-4" />;
@@ -50,6 +51,7 @@ export const ActivityLog: React.FC = () => {
       case 'download':
         return 'bg-blue-500/10 text-blue-500 border-blue-500/20';
       case 'delete':
+      case 'purge':
         return 'bg-red-500/10 text-red-500 border-red-500/20';
       default:
         return 'bg-gray-500/10 text-gray-500 border-gray-500/20';
@@ -110,6 +112,11 @@ export const ActivityLog: React.FC = () => {
                       {log.data?.fileName && (
                         <span className="text-sm font-medium">{log.data.fileName}</span>
                       )}
+                      {log.action === 'purge' && (
+                        <span className="text-sm text-muted-foreground">
+                          {log.data?.reason === 'expired' ? 'Expired' : 'Download limit reached'}
+                        </span>
+                      )}
                     </div>
                     <div className="flex items-center gap-1 text-sm text-muted-foreground mt-1">
                       <Calendar className="w-3 h-3" />
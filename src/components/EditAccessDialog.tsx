@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CalendarClock } from 'lucide-react';
+import type { EncryptedFileMetadata, FileAccessSettings } from '@/lib/fileManager';
+
+interface EditAccessDialogProps {
+  file: EncryptedFileMetadata | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (settings: FileAccessSettings) => void;
+  isSaving?: boolean;
+}
+
+// Local calendar date (YYYY-MM-DD) of a timestamp, as used by date inputs
+const toDateInput = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const EditAccessDialog: React.FC<EditAccessDialogProps> = ({
+  file,
+  onOpenChange,
+  onSave,
+  isSaving = false
+}) => {
+  const [expiryMode, setExpiryMode] = useState<'never' | 'date'>('never');
+  const [expiryDate, setExpiryDate] = useState('');
+  const [maxDownloads, setMaxDownloads] = useState(0);
+  const [resetCount, setResetCount] = useState(false);
+
+  useEffect(() => {
+    setExpiryMode(file?.expiresAt ? 'date' : 'never');
+    setExpiryDate(toDateInput(file?.expiresAt ? new Date(file.expiresAt) : new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)));
+    setMaxDownloads(file?.maxDownloads ?? 0);
+    setResetCount(false);
+  }, [file]);
+
+  const today = toDateInput(new Date());
+  const invalidDate = expiryMode === 'date' && (!expiryDate || expiryDate < today);
+  const downloadCount = resetCount ? 0 : file?.downloadCount ?? 0;
+  const exhausted = maxDownloads > 0 && downloadCount >= maxDownloads;
+
+  const handleSave = () => {
+    onSave({
+      // The file stays available until the end of the chosen day
+      expiresAt: expiryMode === 'date' ? new Date(`${expiryDate}T23:59:59`).toISOString() : null,
+      maxDownloads: maxDownloads > 0 ? maxDownloads : null,
+      resetDownloadCount: resetCount
+    });
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5 text-primary" />
+            Edit Access
+          </DialogTitle>
+          <DialogDescription>
+            Change how long <strong>{file?.originalName}</strong> can be downloaded and how often.
+            Existing links keep working with the new limits. Expired and used-up files are deleted
+            automatically, so extend them soon.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="access-expiry-mode">Expiry</Label>
+            <select
+              id="access-expiry-mode"
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+              value={expiryMode}
+              onChange={(e) => setExpiryMode(e.target.value as 'never' | 'date')}
+            >
+              <option value="never">Never expires</option>
+              <option value="date">Expires on a date</option>
+            </select>
+            {expiryMode === 'date' && (
+              <Input
+                id="access-expiry-date"
+                type="date"
+                min={today}
+                value={expiryDate}
+                onChange={(e) => setExpiryDate(e.target.value)}
+              />
+            )}
+            {invalidDate && (
+              <p className="text-sm text-destructive">Choose today or a later date</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="access-downloads">Max Downloads</Label>
+            <Input
+              id="access-downloads"
+              type="number"
+              min="0"
+              max="1000"
+              value={maxDownloads}
+              onChange={(e) => setMaxDownloads(parseInt(e.target.value) || 0)}
+              placeholder="0 for unlimited"
+            />
+            {exhausted && (
+              <p className="text-sm text-yellow-500">
+                Already downloaded {downloadCount} times - the file can't be downloaded again
+                unless you raise the limit or reset the counter.
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="access-reset-count"
+              checked={resetCount}
+              onCheckedChange={(checked) => setResetCount(checked === true)}
+            />
+            <Label htmlFor="access-reset-count">
+              Reset download counter ({file?.downloadCount ?? 0} so far)
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={isSaving || invalidDate}>
+            {isSaving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
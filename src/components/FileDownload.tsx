@@ -1,32 +1,113 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { TransferProgressBar } from '@/components/TransferProgressBar';
 import { useToast } from '@/hooks/use-toast';
-import { Download, Lock, AlertTriangle, FileX, Loader2 } from 'lucide-react';
-import { downloadEncryptedFile } from '@/lib/fileManager';
-import { parseUrlFragment, base64ToArrayBuffer } from '@/lib/encryption';
+import { Download, Lock, AlertTriangle, FileX, KeyRound, ShieldCheck, ShieldAlert, Copy, Hash, Split, CheckCircle, Eye, File, X } from 'lucide-react';
+import { FilePreview } from '@/components/FilePreview';
+import {
+  downloadEncryptedFile,
+  fetchDecryptedFile,
+  getFileMetadata,
+  type DecryptedDownload,
+  type DownloadResult,
+  type TransferProgress
+} from '@/lib/fileManager';
+import { isCancelled } from '@/lib/cryptoWorker';
+import { parseUrlFragment, base64ToArrayBuffer, type FileMetadata } from '@/lib/encryption';
+import { saveBlob } from '@/lib/saveStream';
+import { canPreview } from '@/lib/preview';
+import { unlockPasswordShare } from '@/lib/sharePassword';
+import { openShareLink, linkClaimToken, type OpenLinkStatus } from '@/lib/shareLinks';
+import { parseKeyShare, shareLinkFileId, combineKeyShares, type KeyShare } from '@/lib/keyShares';
+
+// Why a share link can't be opened, as shown to the recipient
+const linkErrorMessage = (status: OpenLinkStatus): string => {
+  switch (status) {
+    case 'expired':
+      return 'This link has expired';
+    case 'limit_reached':
+      return 'This link has reached its download limit';
+    case 'password_required':
+      return 'This link needs a password';
+    default:
+      return 'This link has been revoked or is no longer valid';
+  }
+};
 
 export const FileDownload: React.FC = () => {
   const { fileId } = useParams<{ fileId: string }>();
   const [downloading, setDownloading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [fileInfo, setFileInfo] = useState<any>(null);
+  const [fileInfo, setFileInfo] = useState<FileMetadata | null>(null);
+  const [preview, setPreview] = useState<DecryptedDownload | null>(null);
+  // A closed preview keeps its decrypted file, so saving it doesn't claim another download
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const [passwordRequired, setPasswordRequired] = useState(false);
+  const [password, setPassword] = useState('');
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [unlockedKey, setUnlockedKey] = useState<string | null>(null);
+  const [downloadResult, setDownloadResult] = useState<DownloadResult | null>(null);
+  const [progress, setProgress] = useState<TransferProgress | null>(null);
+  const [keyShares, setKeyShares] = useState<KeyShare[]>([]);
+  const [shareInput, setShareInput] = useState('');
+  const [shareError, setShareError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
     // Parse encryption parameters from URL fragment
     try {
-      const { key, iv } = parseUrlFragment();
+      const { key, iv, pw, share, link, secret } = parseUrlFragment();
+
+      // Key share links carry one share; the key is rebuilt once enough shares are pasted
+      if (share) {
+        setKeyShares([parseKeyShare(share)]);
+        return;
+      }
+
+      // Share links carry a link secret; the server releases the key while the link is live
+      if (link) {
+        if (!secret) {
+          setError('Invalid download link - link secret missing');
+          return;
+        }
+        base64ToArrayBuffer(secret);
+        openShareLink(link, secret)
+          .then(result => {
+            if (result.status === 'ok') {
+              setUnlockedKey(result.key ?? null);
+            } else if (result.status === 'password_required') {
+              setPasswordRequired(true);
+            } else {
+              setError(linkErrorMessage(result.status));
+            }
+          })
+          .catch(error => {
+            console.error('Could not open share link:', error);
+            setError('Could not open this link, please try again');
+          });
+        return;
+      }
+
+      // Password links carry a link secret; the key is released once the password checks out
+      if (pw) {
+        base64ToArrayBuffer(pw);
+        setPasswordRequired(true);
+        return;
+      }
       
-      if (!key || !iv) {
+      if (!key) {
         setError('Invalid download link - encryption keys missing');
         return;
       }
 
-      // Test if the keys are valid base64 by trying to decode them
+      // Test if the keys are valid base64 by trying to decode them (IV only on legacy links)
       base64ToArrayBuffer(key);
-      base64ToArrayBuffer(iv);
+      if (iv) base64ToArrayBuffer(iv);
       
     } catch (err) {
       console.error('Invalid URL keys:', err);
@@ -34,29 +115,101 @@ export const FileDownload: React.FC = () => {
     }
   }, []);
 
-  const handleDownload = async () => {
+  // Show the file's name and size once the key is known; failures surface on download instead
+  useEffect(() => {
+    const { key: linkKey, iv, pw, share, link } = parseUrlFragment();
+    const key = pw || share || link ? unlockedKey : linkKey;
+    if (!fileId || !key) return;
+
+    getFileMetadata(fileId, key, iv, link)
+      .then(setFileInfo)
+      .catch(error => console.error('Could not read file details:', error));
+  }, [fileId, unlockedKey]);
+
+  // The file key from the link, the share password or the collected key shares
+  // Sets the error to show and returns null when there is no key (yet)
+  const resolveKey = async (): Promise<string | null> => {
     if (!fileId) {
       setError('File ID not found');
-      return;
+      return null;
+    }
+
+    const { key: linkKey, pw, share, link, secret } = parseUrlFragment();
+    if (share) return unlockedKey;
+    if (!pw && !link) {
+      if (!linkKey) setError('Encryption keys not found in URL');
+      return linkKey ?? null;
     }
+    if (unlockedKey) return unlockedKey;
 
-    const { key, iv } = parseUrlFragment();
-    if (!key || !iv) {
-      setError('Encryption keys not found in URL');
-      return;
+    const result = pw
+      ? await unlockPasswordShare(fileId, pw, password)
+      : await openShareLink(link ?? '', secret ?? '', password);
+    if (result.status === 'not_found' && pw) {
+      setError('This password-protected link is no longer valid');
+      return null;
+    }
+    if (result.status === 'locked') {
+      setPasswordError('Too many incorrect attempts. This link is temporarily locked.');
+      return null;
+    }
+    if (result.status !== 'ok' && result.status !== 'invalid') {
+      setError(linkErrorMessage(result.status));
+      return null;
     }
+    if (result.status === 'invalid') {
+      setPasswordError(
+        `Incorrect password. ${result.attemptsRemaining} attempt${result.attemptsRemaining === 1 ? '' : 's'} left before the link is locked.`
+      );
+      return null;
+    }
+    setUnlockedKey(result.key);
+    return result.key;
+  };
+
+  // Decrypt into memory (preview) or straight to disk (download); both count as a download
+  const runTransfer = async (mode: 'download' | 'preview') => {
+    const { iv, link, secret } = parseUrlFragment();
 
     try {
       setDownloading(true);
       setError(null);
-      
-      await downloadEncryptedFile(fileId, key, iv);
-      
+      setPasswordError(null);
+
+      const key = await resolveKey();
+      if (!fileId || !key) return;
+
+      const controller = new AbortController();
+      abortRef.current = controller;
+      const options = {
+        onProgress: setProgress,
+        signal: controller.signal,
+        linkId: link,
+        linkToken: link && secret ? await linkClaimToken(secret) : undefined
+      };
+
+      if (mode === 'preview') {
+        const decrypted = await fetchDecryptedFile(fileId, key, iv, options);
+        setPreview(decrypted);
+        setPreviewOpen(true);
+        setDownloadResult(decrypted);
+        return;
+      }
+
+      setDownloadResult(await downloadEncryptedFile(fileId, key, iv, options));
       toast({
-        title: "Download started",
-        description: "File is being decrypted and downloaded"
+        title: "Download complete",
+        description: "File was decrypted and saved"
       });
     } catch (error: any) {
+      if (isCancelled(error)) {
+        toast({
+          title: mode === 'preview' ? "Preview cancelled" : "Download cancelled",
+          description: "Nothing was saved"
+        });
+        return;
+      }
+
       console.error('Download error:', error);
       setError(error.message || 'Download failed');
       toast({
@@ -65,10 +218,83 @@ export const FileDownload: React.FC = () => {
         variant: "destructive"
       });
     } finally {
+      abortRef.current = null;
       setDownloading(false);
+      setProgress(null);
+    }
+  };
+
+  const handleDownload = () => runTransfer('download');
+
+  const handlePreview = () => runTransfer('preview');
+
+  // Save the previewed file; it was already decrypted and counted, so nothing is fetched again
+  const handleSavePreview = () => {
+    if (!preview) return;
+    saveBlob(preview.file, preview.metadata.originalName);
+  };
+
+  const handleAddShare = async () => {
+    setShareError(null);
+
+    try {
+      const linkFileId = shareLinkFileId(shareInput);
+      if (linkFileId && linkFileId !== fileId) {
+        setShareError('This share belongs to a different file');
+        return;
+      }
+
+      const share = parseKeyShare(shareInput);
+      if (keyShares.length > 0 && share.setId !== keyShares[0].setId) {
+        setShareError('This share belongs to a different set of share links');
+        return;
+      }
+      if (keyShares.some(s => s.x === share.x)) {
+        setShareError('You already added this share');
+        return;
+      }
+
+      const collected = [...keyShares, share];
+      setKeyShares(collected);
+      setShareInput('');
+
+      if (collected.length >= share.threshold) {
+        setUnlockedKey(await combineKeyShares(collected));
+        toast({
+          title: "Key reconstructed",
+          description: "You can now download the file"
+        });
+      }
+    } catch (error) {
+      setShareError((error as Error).message);
+    }
+  };
+
+  const handleCopyChecksum = async (checksum: string) => {
+    try {
+      await navigator.clipboard.writeText(checksum);
+      toast({
+        title: "Checksum copied",
+        description: "Compare it with the checksum the sender gave you"
+      });
+    } catch (error) {
+      console.error('Copy error:', error);
     }
   };
 
+  const keyAvailable = !(passwordRequired && !unlockedKey && !password) && !(keyShares.length > 0 && !unlockedKey);
+
+  const formatFileSize = (bytes: number): string => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  const signatureStatus = downloadResult?.signature;
+  const checksum = downloadResult?.sha256;
+
   if (error) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-dark p-4">
@@ -99,7 +325,7 @@ export const FileDownload: React.FC = () => {
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-dark p-4">
-      <Card className="w-full max-w-md bg-card/50 backdrop-blur-sm border-border/50">
+      <Card className={`w-full ${previewOpen ? 'max-w-3xl' : 'max-w-md'} bg-card/50 backdrop-blur-sm border-border/50`}>
         <CardHeader className="text-center">
           <CardTitle className="flex items-center justify-center gap-2">
             <Lock className="w-6 h-6 text-primary" />
@@ -115,26 +341,189 @@ export const FileDownload: React.FC = () => {
               <Lock className="w-4 h-4 text-primary" />
               <span className="text-sm text-primary font-medium">File ID: {fileId}</span>
             </div>
+            {fileInfo && (
+              <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                <File className="w-4 h-4" />
+                <span className="truncate">{fileInfo.relativePath ?? fileInfo.originalName}</span>
+                <span>({formatFileSize(fileInfo.size)})</span>
+              </p>
+            )}
           </div>
 
-          <Button
-            onClick={handleDownload}
-            disabled={downloading}
-            className="w-full security-glow"
-            size="lg"
-          >
-            {downloading ? (
-              <>
-                <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                Decrypting & Downloading...
-              </>
-            ) : (
-              <>
+          {passwordRequired && !unlockedKey && (
+            <div className="space-y-2">
+              <Label htmlFor="share-password" className="flex items-center gap-2">
+                <KeyRound className="w-4 h-4" />
+                This file is password protected
+              </Label>
+              <Input
+                id="share-password"
+                type="password"
+                autoComplete="off"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && password && handleDownload()}
+                placeholder="Enter the share password"
+                disabled={downloading}
+              />
+              {passwordError && (
+                <p className="text-sm text-destructive">{passwordError}</p>
+              )}
+            </div>
+          )}
+
+          {keyShares.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="key-share" className="flex items-center gap-2">
+                {unlockedKey ? (
+                  <CheckCircle className="w-4 h-4 text-green-500" />
+                ) : (
+                  <Split className="w-4 h-4" />
+                )}
+                Key shares: {keyShares.length} of {keyShares[0].threshold} collected
+              </Label>
+              {!unlockedKey && (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    This link holds only part of the key. Paste share links from the other
+                    recipients - the key is put together in your browser.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      id="key-share"
+                      autoComplete="off"
+                      value={shareInput}
+                      onChange={(e) => setShareInput(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && shareInput && handleAddShare()}
+                      placeholder="Paste another share link"
+                      className="font-mono text-xs"
+                    />
+                    <Button variant="outline" onClick={handleAddShare} disabled={!shareInput.trim()}>
+                      Add
+                    </Button>
+                  </div>
+                  {shareError && (
+                    <p className="text-sm text-destructive">{shareError}</p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {preview && (
+            <div className="space-y-3">
+              {previewOpen && <FilePreview file={preview.file} metadata={preview.metadata} />}
+              <div className="flex gap-2">
+                <Button onClick={handleSavePreview} className="flex-1 security-glow">
+                  <Download className="w-4 h-4 mr-2" />
+                  Save File
+                </Button>
+                {previewOpen ? (
+                  <Button variant="outline" onClick={() => setPreviewOpen(false)}>
+                    <X className="w-4 h-4 mr-2" />
+                    Close Preview
+                  </Button>
+                ) : (
+                  <Button variant="outline" onClick={() => setPreviewOpen(true)}>
+                    <Eye className="w-4 h-4 mr-2" />
+                    Show Preview
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {downloading ? (
+            <TransferProgressBar progress={progress} onCancel={() => abortRef.current?.abort()} />
+          ) : !preview && (
+            <div className="space-y-2">
+              <Button
+                onClick={handleDownload}
+                disabled={!keyAvailable}
+                className="w-full security-glow"
+                size="lg"
+              >
                 <Download className="w-5 h-5 mr-2" />
                 Download File
-              </>
-            )}
-          </Button>
+              </Button>
+              {(!fileInfo || canPreview(fileInfo.originalName, fileInfo.type, fileInfo.size)) && (
+                <Button onClick={handlePreview} disabled={!keyAvailable} variant="outline" className="w-full">
+                  <Eye className="w-4 h-4 mr-2" />
+                  Preview in Browser
+                </Button>
+              )}
+            </div>
+          )}
+
+          {signatureStatus?.state === 'valid' && (
+            <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-4">
+              <div className="flex items-start gap-3">
+                <ShieldCheck className="w-5 h-5 text-green-500 mt-0.5 flex-shrink-0" />
+                <div className="text-sm">
+                  <p className="font-medium text-green-500 mb-1">Signed by {signatureStatus.signerName}</p>
+                  <p className="text-green-400 font-mono text-xs break-all">
+                    Key fingerprint: {signatureStatus.fingerprint}
+                  </p>
+                  {signatureStatus.replacedKey && (
+                    <p className="text-green-400 mt-1">
+                      Signed with a key {signatureStatus.signerName} has since replaced.
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {signatureStatus?.state === 'invalid' && (
+            <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4">
+              <div className="flex items-start gap-3">
+                <ShieldAlert className="w-5 h-5 text-destructive mt-0.5 flex-shrink-0" />
+                <div className="text-sm">
+                  <p className="font-medium text-destructive mb-1">Signature verification failed</p>
+                  <p className="text-destructive/80">
+                    This file does not match the signature of {signatureStatus.signerName}. It may have
+                    been replaced or tampered with - do not trust its contents.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {signatureStatus?.state === 'missing' && (
+            <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4">
+              <div className="flex items-start gap-3">
+                <ShieldAlert className="w-5 h-5 text-destructive mt-0.5 flex-shrink-0" />
+                <div className="text-sm">
+                  <p className="font-medium text-destructive mb-1">Signature missing</p>
+                  <p className="text-destructive/80">
+                    This file was signed when it was uploaded, but its signature has been removed.
+                    Check with {signatureStatus.signerName} before trusting its contents.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {checksum && (
+            <div className="border border-border rounded-lg p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium flex items-center gap-2">
+                  <Hash className="w-4 h-4 text-primary" />
+                  SHA-256 (verified)
+                </p>
+                <Button variant="ghost" size="sm" onClick={() => handleCopyChecksum(checksum)}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+              <p className="font-mono text-xs break-all text-muted-foreground">{checksum}</p>
+            </div>
+          )}
+
+          {signatureStatus?.state === 'unsigned' && (
+            <p className="text-sm text-muted-foreground text-center">
+              This file was not signed by its sender.
+            </p>
+          )}
 
           <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4">
             <div className="flex items-start gap-3">
@@ -4,19 +4,40 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { DeleteConfirmDialog } from '@/components/DeleteConfirmDialog';
+import { SharePasswordDialog } from '@/components/SharePasswordDialog';
+import { ShareWithUserDialog } from '@/components/ShareWithUserDialog';
+import { KeySharesDialog } from '@/components/KeySharesDialog';
+import { ShareLinksDialog } from '@/components/ShareLinksDialog';
+import { EditAccessDialog } from '@/components/EditAccessDialog';
 import { 
   File, 
   Download, 
   Share2, 
+  Link2,
   Trash2, 
   Copy, 
   Clock, 
   Lock,
   AlertTriangle,
-  RefreshCw
+  RefreshCw,
+  KeyRound,
+  UserPlus,
+  Split,
+  StickyNote,
+  Hash,
+  CalendarClock
 } from 'lucide-react';
-import { getUserFileList, deleteEncryptedFile, downloadEncryptedFile, type EncryptedFileMetadata } from '@/lib/fileManager';
-import { generateDownloadUrl } from '@/lib/encryption';
+import {
+  getUserFileList,
+  deleteEncryptedFile,
+  downloadEncryptedFile,
+  getShareUrl,
+  updateSharePassword,
+  updateFileAccess,
+  type EncryptedFileMetadata,
+  type FileAccessSettings
+} from '@/lib/fileManager';
+import { isCancelled } from '@/lib/cryptoWorker';
 
 interface FileListProps {
   refreshTrigger?: number;
@@ -29,6 +50,13 @@ export const FileList: React.FC<FileListProps> = ({ refreshTrigger }) => {
   const [downloading, setDownloading] = useState<string | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [fileToDelete, setFileToDelete] = useState<{ id: string; name: string } | null>(null);
+  const [passwordFile, setPasswordFile] = useState<EncryptedFileMetadata | null>(null);
+  const [savingPassword, setSavingPassword] = useState(false);
+  const [shareUserFile, setShareUserFile] = useState<EncryptedFileMetadata | null>(null);
+  const [keySharesFile, setKeySharesFile] = useState<EncryptedFileMetadata | null>(null);
+  const [shareLinksFile, setShareLinksFile] = useState<EncryptedFileMetadata | null>(null);
+  const [accessFile, setAccessFile] = useState<EncryptedFileMetadata | null>(null);
+  const [savingAccess, setSavingAccess] = useState(false);
   const { toast } = useToast();
 
   const loadFiles = async () => {
@@ -93,10 +121,12 @@ export const FileList: React.FC<FileListProps> = ({ refreshTrigger }) => {
       await loadFiles();
       
       toast({
-        title: "Download started",
-        description: `${file.originalName} is being downloaded`
+        title: "Download complete",
+        description: `${file.originalName} has been saved`
       });
     } catch (error: any) {
+      // Closing the save dialog cancels the download; nothing to report
+      if (isCancelled(error)) return;
       console.error('Download error:', error);
       toast({
         title: "Download failed",
@@ -110,11 +140,13 @@ export const FileList: React.FC<FileListProps> = ({ refreshTrigger }) => {
 
   const handleShare = async (file: EncryptedFileMetadata) => {
     try {
-      const downloadUrl = generateDownloadUrl(file.fileId, file.key, file.iv);
+      const downloadUrl = getShareUrl(file);
       await navigator.clipboard.writeText(downloadUrl);
       toast({
         title: "Link copied",
-        description: "Secure download link has been copied to clipboard"
+        description: file.shareLinkSecret
+          ? "Password-protected link copied - send the password separately"
+          : "Secure download link has been copied to clipboard"
       });
     } catch (error) {
       console.error('Share error:', error);
@@ -126,6 +158,68 @@ export const FileList: React.FC<FileListProps> = ({ refreshTrigger }) => {
     }
   };
 
+  const handleSharePasswordSave = async (password: string | null) => {
+    if (!passwordFile) return;
+
+    try {
+      setSavingPassword(true);
+      await updateSharePassword(passwordFile.fileId, password);
+      await loadFiles();
+      toast({
+        title: password ? "Share password set" : "Share password removed",
+        description: password
+          ? "Copy the share link again to get the new password-protected link"
+          : "The password-protected link no longer works"
+      });
+      setPasswordFile(null);
+    } catch (error) {
+      console.error('Share password error:', error);
+      toast({
+        title: "Could not update share password",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  const handleAccessSave = async (settings: FileAccessSettings) => {
+    if (!accessFile) return;
+
+    try {
+      setSavingAccess(true);
+      await updateFileAccess(accessFile.fileId, settings);
+      await loadFiles();
+      toast({
+        title: "Access updated",
+        description: "Existing links now follow the new expiry and download limit"
+      });
+      setAccessFile(null);
+    } catch (error) {
+      console.error('Access update error:', error);
+      toast({
+        title: "Could not update access",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setSavingAccess(false);
+    }
+  };
+
+  const handleCopyChecksum = async (checksum: string) => {
+    try {
+      await navigator.clipboard.writeText(checksum);
+      toast({
+        title: "Checksum copied",
+        description: "Send it to recipients so they can check their download"
+      });
+    } catch (error) {
+      console.error('Copy error:', error);
+    }
+  };
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -193,11 +287,15 @@ export const FileList: React.FC<FileListProps> = ({ refreshTrigger }) => {
               >
                 <div className="flex items-center gap-4 flex-1">
                   <div className="p-2 bg-primary/10 rounded-lg">
-                    <File className="w-5 h-5 text-primary" />
+                    {file.kind === 'note' ? (
+                      <StickyNote className="w-5 h-5 text-primary" />
+                    ) : (
+                      <File className="w-5 h-5 text-primary" />
+                    )}
                   </div>
                   
                   <div className="flex-1 min-w-0">
-                    <h4 className="font-medium truncate">{file.originalName}</h4>
+                    <h4 className="font-medium truncate" title={file.relativePath}>{file.relativePath ?? file.originalName}</h4>
                     <div className="flex items-center gap-4 text-sm text-muted-foreground mt-1">
                       <span>{formatFileSize(file.size)}</span>
                       <span className="flex items-center gap-1">
@@ -209,6 +307,17 @@ export const FileList: React.FC<FileListProps> = ({ refreshTrigger }) => {
                         <Clock className="w-3 h-3" />
                         {formatDate(file.uploadDate)}
                       </span>
+                      {file.sha256 && (
+                        <button
+                          type="button"
+                          onClick={() => handleCopyChecksum(file.sha256 || '')}
+                          className="flex items-center gap-1 font-mono hover:text-foreground"
+                          title={`SHA-256: ${file.sha256}`}
+                        >
+                          <Hash className="w-3 h-3" />
+                          {file.sha256.slice(0, 8)}
+                        </button>
+                      )}
                       {file.expiresAt && (
                         <span className={`flex items-center gap-1 ${
                           isExpired(file.expiresAt) ? 'text-destructive' : 
@@ -243,7 +352,7 @@ export const FileList: React.FC<FileListProps> = ({ refreshTrigger }) => {
                     variant="default"
                     size="sm"
                     onClick={() => handleDownload(file)}
-                    disabled={isExpired(file.expiresAt) || downloading === file.fileId}
+                    disabled={isExpired(file.expiresAt) || downloading === file.fileId || file.kind === 'note'}
                   >
                     {downloading === file.fileId ? (
                       <RefreshCw className="w-4 h-4 animate-spin" />
@@ -256,10 +365,57 @@ export const FileList: React.FC<FileListProps> = ({ refreshTrigger }) => {
                     variant="outline"
                     size="sm"
                     onClick={() => handleShare(file)}
-                    disabled={isExpired(file.expiresAt)}
+                    disabled={isExpired(file.expiresAt) || !!file.shareLinks?.length}
                   >
                     <Share2 className="w-4 h-4" />
                   </Button>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShareLinksFile(file)}
+                    disabled={isExpired(file.expiresAt) || !!file.iv || file.kind === 'note'}
+                    className={file.shareLinks?.length ? 'text-primary' : ''}
+                  >
+                    <Link2 className="w-4 h-4" />
+                  </Button>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPasswordFile(file)}
+                    disabled={isExpired(file.expiresAt) || file.kind === 'note' || !!file.shareLinks?.length}
+                    className={file.shareLinkSecret ? 'text-primary' : ''}
+                  >
+                    <KeyRound className="w-4 h-4" />
+                  </Button>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShareUserFile(file)}
+                    disabled={isExpired(file.expiresAt)}
+                  >
+                    <UserPlus className="w-4 h-4" />
+                  </Button>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setKeySharesFile(file)}
+                    disabled={isExpired(file.expiresAt) || !!file.iv || file.kind === 'note' || !!file.shareLinks?.length}
+                  >
+                    <Split className="w-4 h-4" />
+                  </Button>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setAccessFile(file)}
+                    disabled={file.kind === 'note'}
+                  >
+                    <CalendarClock className="w-4 h-4" />
+                  </Button>
                   
                   <Button
                     variant="outline"
@@ -302,6 +458,41 @@ export const FileList: React.FC<FileListProps> = ({ refreshTrigger }) => {
         fileName={fileToDelete?.name || ''}
         isDeleting={deleting === fileToDelete?.id}
       />
+
+      <SharePasswordDialog
+        open={passwordFile !== null}
+        onOpenChange={(open) => !open && setPasswordFile(null)}
+        onSave={handleSharePasswordSave}
+        fileName={passwordFile?.originalName || ''}
+        hasPassword={!!passwordFile?.shareLinkSecret}
+        isSaving={savingPassword}
+      />
+
+      <ShareWithUserDialog
+        file={shareUserFile}
+        onOpenChange={(open) => !open && setShareUserFile(null)}
+      />
+
+      <KeySharesDialog
+        file={keySharesFile}
+        onOpenChange={(open) => !open && setKeySharesFile(null)}
+      />
+
+      <ShareLinksDialog
+        file={shareLinksFile}
+        onOpenChange={(open) => {
+          if (open) return;
+          setShareLinksFile(null);
+          loadFiles(); // Picks up links created or revoked in the dialog
+        }}
+      />
+
+      <EditAccessDialog
+        file={accessFile}
+        onOpenChange={(open) => !open && setAccessFile(null)}
+        onSave={handleAccessSave}
+        isSaving={savingAccess}
+      />
     </Card>
   );
 };
\ No newline at end of file
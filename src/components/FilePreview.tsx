@@ -0,0 +1,103 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileX } from 'lucide-react';
+import type { FileMetadata } from '@/lib/encryption';
+import { previewFormat, MAX_TEXT_PREVIEW_LENGTH } from '@/lib/preview';
+import { highlight, type TokenKind } from '@/lib/syntaxHighlight';
+
+interface FilePreviewProps {
+  file: Blob;
+  metadata: FileMetadata;
+}
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  comment: 'text-muted-foreground italic',
+  string: 'text-green-400',
+  number: 'text-orange-400',
+  keyword: 'text-purple-400',
+  tag: 'text-blue-400',
+  attribute: 'text-sky-300',
+  heading: 'text-primary font-bold',
+  code: 'text-amber-300',
+  emphasis: 'italic text-foreground',
+  link: 'text-blue-400 underline'
+};
+
+// Preview of a decrypted file; see preview.ts for which formats are shown and how
+export const FilePreview: React.FC<FilePreviewProps> = ({ file, metadata }) => {
+  const format = useMemo(() => previewFormat(metadata.originalName, metadata.type), [metadata.originalName, metadata.type]);
+  const [url, setUrl] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!format) return;
+
+    if (format.kind === 'text') {
+      let cancelled = false;
+      file.slice(0, MAX_TEXT_PREVIEW_LENGTH).text().then(content => {
+        if (!cancelled) setText(content);
+      });
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    // Re-labelled with the format's own type, whatever the metadata claims
+    const objectUrl = URL.createObjectURL(new Blob([file], { type: format.mimeType }));
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file, format]);
+
+  const tokens = useMemo(
+    () => (text !== null && format?.language ? highlight(text, format.language) : []),
+    [text, format]
+  );
+
+  if (!format) {
+    return (
+      <div className="border border-border rounded-lg p-6 text-center">
+        <FileX className="w-10 h-10 text-muted-foreground mx-auto mb-2" />
+        <p className="text-sm text-muted-foreground">No preview is available for this type of file.</p>
+      </div>
+    );
+  }
+
+  switch (format.kind) {
+    case 'text':
+      return (
+        <div className="space-y-2">
+          <pre className="max-h-[60vh] overflow-auto rounded-lg border border-border bg-background/80 p-4 text-xs font-mono whitespace-pre-wrap break-words">
+            {tokens.map((token, index) => (
+              token.kind
+                ? <span key={index} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+                : <React.Fragment key={index}>{token.text}</React.Fragment>
+            ))}
+          </pre>
+          {file.size > MAX_TEXT_PREVIEW_LENGTH && (
+            <p className="text-xs text-muted-foreground">
+              Only the beginning of the file is shown. Save it to see everything.
+            </p>
+          )}
+        </div>
+      );
+    case 'image':
+      return url && (
+        <img src={url} alt={metadata.originalName} className="max-h-[60vh] mx-auto rounded-lg border border-border" />
+      );
+    case 'pdf':
+      // Sandboxed without allow-same-origin, so the document gets an opaque origin and can't
+      // reach the page, its storage or the unlocked keys, whatever the file really contains
+      return url && (
+        <iframe
+          src={url}
+          title={metadata.originalName}
+          sandbox="allow-scripts"
+          referrerPolicy="no-referrer"
+          className="w-full h-[60vh] rounded-lg border border-border bg-white"
+        />
+      );
+    case 'audio':
+      return url && <audio src={url} controls className="w-full" />;
+    case 'video':
+      return url && <video src={url} controls className="w-full max-h-[60vh] rounded-lg border border-border" />;
+  }
+};
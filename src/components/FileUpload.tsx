@@ -3,27 +3,73 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Progress } from '@/components/ui/progress';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { TransferProgressBar } from '@/components/TransferProgressBar';
 import { useToast } from '@/hooks/use-toast';
-import { Upload, FileCheck, AlertCircle, Copy, ExternalLink } from 'lucide-react';
-import { uploadEncryptedFile, getUserFileList } from '@/lib/fileManager';
+import { useUploadQueue } from '@/hooks/use-upload-queue';
+import { Upload, FileCheck, AlertCircle, Copy, ExternalLink, FolderUp, RotateCcw, X } from 'lucide-react';
+import {
+  uploadEncryptedFile,
+  resumePendingUpload,
+  getUserFileList,
+  MAX_FILE_SIZE,
+  type EncryptedFileMetadata
+} from '@/lib/fileManager';
+import { filesFromInput, filesFromDataTransfer, type FileSource } from '@/lib/droppedFiles';
+import { MIN_SHARE_PASSWORD_LENGTH } from '@/lib/sharePassword';
+import { hasPendingUpload } from '@/lib/pendingUploads';
 
 interface FileUploadProps {
   onUploadComplete?: () => void;
 }
 
+// Options chosen in the form when a batch of files was queued
+interface UploadSettings {
+  expiryDays?: number;
+  maxDownloads?: number;
+  sharePassword?: string;
+  compress: boolean;
+}
+
 export const FileUpload: React.FC<FileUploadProps> = ({ onUploadComplete }) => {
   const [isDragging, setIsDragging] = useState(false);
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [uploadResult, setUploadResult] = useState<{ fileId: string; downloadUrl: string } | null>(null);
   const [expiryDays, setExpiryDays] = useState<number>(30);
   const [customExpiry, setCustomExpiry] = useState<string>('');
   const [expiryMode, setExpiryMode] = useState<'preset' | 'custom'>('preset');
   const [maxDownloads, setMaxDownloads] = useState<number>(0);
+  const [sharePassword, setSharePassword] = useState<string>('');
+  const [compress, setCompress] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
+  // Upload IDs of queued files; retrying one that was saved for resuming skips re-encrypting it
+  const uploadIds = useRef(new Map<string, string>());
+
+  const queue = useUploadQueue<UploadSettings>(
+    async (item, { onProgress, signal }) => {
+      const fileId = uploadIds.current.get(item.id);
+      if (fileId && await hasPendingUpload(fileId).catch(() => false)) {
+        return await resumePendingUpload(fileId, { onProgress, signal });
+      }
+      return await uploadEncryptedFile(
+        item.file,
+        item.settings.expiryDays,
+        item.settings.maxDownloads,
+        item.settings.sharePassword,
+        {
+          onProgress,
+          signal,
+          compress: item.settings.compress,
+          relativePath: item.relativePath,
+          onFileId: id => uploadIds.current.set(item.id, id)
+        }
+      );
+    },
+    () => onUploadComplete?.()
+  );
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(true);
@@ -34,121 +80,66 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onUploadComplete }) => {
     setIsDragging(false);
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    
-    const files = Array.from(e.dataTransfer.files);
-    if (files.length > 0) {
-      handleFileUpload(files[0]);
+
+    try {
+      queueFiles(await filesFromDataTransfer(e.dataTransfer));
+    } catch (error) {
+      console.error('Error reading dropped files:', error);
+      toast({
+        title: "Could not read dropped files",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
     }
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []);
-    if (files.length > 0) {
-      handleFileUpload(files[0]);
-    }
+    queueFiles(filesFromInput(e.target.files));
+    e.target.value = '';
   };
 
-  const handleFileUpload = async (file: File) => {
-    if (!file) return;
-
-    console.log('Starting file upload for:', file.name, 'size:', file.size);
+  const queueFiles = async (sources: FileSource[]) => {
+    if (sources.length === 0) return;
 
-    // Validate file size (100MB limit)
-    const maxSize = 100 * 1024 * 1024;
-    if (file.size > maxSize) {
-      console.log('File size validation failed:', file.size, 'vs max:', maxSize);
+    if (sharePassword && sharePassword.length < MIN_SHARE_PASSWORD_LENGTH) {
       toast({
-        title: "File too large",
-        description: "Maximum file size is 100MB",
+        title: "Share password too short",
+        description: `Use at least ${MIN_SHARE_PASSWORD_LENGTH} characters, or leave it empty`,
         variant: "destructive"
       });
       return;
     }
 
+    // Settings are fixed per batch, so editing the form doesn't change files already queued
+    const finalExpiryDays = expiryMode === 'custom'
+      ? parseInt(customExpiry) || 0
+      : expiryDays;
+    const settings: UploadSettings = {
+      expiryDays: finalExpiryDays > 0 ? finalExpiryDays : undefined,
+      maxDownloads: maxDownloads > 0 ? maxDownloads : undefined,
+      sharePassword: sharePassword || undefined,
+      compress
+    };
+
     // Check for duplicate files
+    let existingFiles: EncryptedFileMetadata[] = [];
     try {
-      const existingFiles = await getUserFileList();
-      const duplicateFile = existingFiles.find(
-        existingFile => existingFile.originalName === file.name && existingFile.size === file.size
-      );
-      
-      if (duplicateFile) {
-        toast({
-          title: "File already uploaded",
-          description: `${file.name} has already been uploaded previously`,
-          variant: "destructive"
-        });
-        return;
-      }
+      existingFiles = await getUserFileList();
     } catch (error) {
       console.log('Could not check for duplicates, proceeding with upload...');
     }
 
-    console.log('File validation passed, starting upload process...');
-    setIsUploading(true);
-    setUploadProgress(0);
-    setUploadResult(null);
-
-    try {
-      console.log('Starting encryption and upload...');
-      // Simulate progress during encryption
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => Math.min(prev + 10, 80));
-      }, 200);
-
-      // Calculate final expiry days
-      const finalExpiryDays = expiryMode === 'custom' 
-        ? parseInt(customExpiry) || 0
-        : expiryDays;
-
-      console.log('Calling uploadEncryptedFile with params:', {
-        fileName: file.name,
-        expiryDays: finalExpiryDays > 0 ? finalExpiryDays : undefined,
-        maxDownloads: maxDownloads > 0 ? maxDownloads : undefined
-      });
-
-      const result = await uploadEncryptedFile(
-        file,
-        finalExpiryDays > 0 ? finalExpiryDays : undefined,
-        maxDownloads > 0 ? maxDownloads : undefined
+    queue.add(sources, settings, ({ file, relativePath }) => {
+      if (file.size > MAX_FILE_SIZE) return 'Larger than the 2GB limit';
+      const duplicate = existingFiles.some(existing =>
+        (existing.relativePath ?? existing.originalName) === relativePath && existing.size === file.size
       );
-
-      console.log('Upload completed successfully:', result);
-      clearInterval(progressInterval);
-      setUploadProgress(100);
-      setUploadResult(result);
-
-      toast({
-        title: "File uploaded successfully!",
-        description: `${file.name} has been encrypted and uploaded securely.`
-      });
-
-      onUploadComplete?.();
-
-      // Reset form
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-    } catch (error: any) {
-      console.error('Upload error details:', {
-        message: error.message,
-        stack: error.stack,
-        cause: error.cause,
-        error: error
-      });
-      
-      toast({
-        title: "Upload failed",
-        description: error.message || "An error occurred during upload",
-        variant: "destructive"
-      });
-    } finally {
-      setIsUploading(false);
-      setUploadProgress(0);
-    }
+      return duplicate ? 'Already uploaded' : undefined;
+    });
+    setSharePassword('');
   };
 
   const copyToClipboard = async (text: string) => {
@@ -167,6 +158,9 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onUploadComplete }) => {
     window.open(url, '_blank');
   };
 
+  const activeCount = queue.items.filter(item => item.status === 'pending' || item.status === 'uploading').length;
+  const finishedCount = queue.items.length - activeCount;
+
   return (
     <Card className="bg-card/50 backdrop-blur-sm border-border/50">
       <CardHeader>
@@ -179,199 +173,233 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onUploadComplete }) => {
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
-        {!isUploading && !uploadResult && (
-          <>
-            {/* Upload Options */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="expiry">Expiry</Label>
-                <div className="space-y-2">
-                  <select
-                    id="expiry-mode"
-                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                    value={expiryMode}
-                    onChange={(e) => setExpiryMode(e.target.value as 'preset' | 'custom')}
-                  >
-                    <option value="preset">Preset Options</option>
-                    <option value="custom">Custom Days</option>
-                  </select>
-                  
-                  {expiryMode === 'preset' ? (
-                    <select
-                      id="expiry"
-                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                      value={expiryDays}
-                      onChange={(e) => setExpiryDays(parseInt(e.target.value))}
-                    >
-                      <option value={0}>Never expires</option>
-                      <option value={1}>1 day</option>
-                      <option value={7}>1 week</option>
-                      <option value={30}>1 month</option>
-                      <option value={90}>3 months</option>
-                      <option value={365}>1 year</option>
-                    </select>
-                  ) : (
-                    <Input
-                      id="custom-expiry"
-                      type="number"
-                      min="0"
-                      max="3650"
-                      value={customExpiry}
-                      onChange={(e) => setCustomExpiry(e.target.value)}
-                      placeholder="0 for never expires, or enter days"
-                    />
-                  )}
-                </div>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="downloads">Max Downloads</Label>
+        {/* Upload Options */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="expiry">Expiry</Label>
+            <div className="space-y-2">
+              <select
+                id="expiry-mode"
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                value={expiryMode}
+                onChange={(e) => setExpiryMode(e.target.value as 'preset' | 'custom')}
+              >
+                <option value="preset">Preset Options</option>
+                <option value="custom">Custom Days</option>
+              </select>
+              
+              {expiryMode === 'preset' ? (
+                <select
+                  id="expiry"
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                  value={expiryDays}
+                  onChange={(e) => setExpiryDays(parseInt(e.target.value))}
+                >
+                  <option value={0}>Never expires</option>
+                  <option value={1}>1 day</option>
+                  <option value={7}>1 week</option>
+                  <option value={30}>1 month</option>
+                  <option value={90}>3 months</option>
+                  <option value={365}>1 year</option>
+                </select>
+              ) : (
                 <Input
-                  id="downloads"
+                  id="custom-expiry"
                   type="number"
                   min="0"
-                  max="1000"
-                  value={maxDownloads}
-                  onChange={(e) => setMaxDownloads(parseInt(e.target.value) || 0)}
-                  placeholder="0 for unlimited"
+                  max="3650"
+                  value={customExpiry}
+                  onChange={(e) => setCustomExpiry(e.target.value)}
+                  placeholder="0 for never expires, or enter days"
                 />
-              </div>
+              )}
             </div>
-
-            {/* Drop Zone */}
-            <div
-              className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
-                isDragging
-                  ? 'border-primary bg-primary/5'
-                  : 'border-border hover:border-primary/50'
-              }`}
-              onDragOver={handleDragOver}
-              onDragLeave={handleDragLeave}
-              onDrop={handleDrop}
-            >
-              <Upload className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-              <h3 className="text-lg font-medium mb-2">
-                Drop your file here or click to browse
-              </h3>
-              <p className="text-muted-foreground mb-4">
-                Maximum file size: 100MB
-              </p>
-              <Button
-                onClick={() => fileInputRef.current?.click()}
-                className="security-glow"
-              >
-                Choose File
-              </Button>
-              <input
-                ref={fileInputRef}
-                type="file"
-                onChange={handleFileSelect}
-                className="hidden"
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="downloads">Max Downloads</Label>
+            <Input
+              id="downloads"
+              type="number"
+              min="0"
+              max="1000"
+              value={maxDownloads}
+              onChange={(e) => setMaxDownloads(parseInt(e.target.value) || 0)}
+              placeholder="0 for unlimited"
+            />
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="share-password">Share Password (optional)</Label>
+            <Input
+              id="share-password"
+              type="password"
+              autoComplete="new-password"
+              value={sharePassword}
+              onChange={(e) => setSharePassword(e.target.value)}
+              placeholder="Recipients must enter this to download"
+            />
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="compress"
+                checked={compress}
+                onCheckedChange={(checked) => setCompress(checked === true)}
               />
+              <Label htmlFor="compress">Compress before encrypting</Label>
             </div>
+            <p className="text-xs text-muted-foreground">
+              Saves space for text, logs and CSV files. Images, video and archives are never compressed.
+              The stored size then hints at how compressible the file is.
+            </p>
+          </div>
+        </div>
 
-            {/* Security Notice */}
-            <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4">
-              <div className="flex items-start gap-3">
-                <AlertCircle className="w-5 h-5 text-blue-500 mt-0.5 flex-shrink-0" />
-                <div className="text-sm">
-                  <p className="font-medium text-blue-500 mb-1">Zero-Trust Encryption</p>
-                  <p className="text-blue-400">
-                    Your file is encrypted in your browser using AES-GCM before upload. 
-                    The encryption key never leaves your device and is embedded in the download URL.
-                    We never see your unencrypted data.
-                  </p>
-                </div>
-              </div>
-            </div>
-          </>
-        )}
+        {/* Drop Zone */}
+        <div
+          className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+            isDragging
+              ? 'border-primary bg-primary/5'
+              : 'border-border hover:border-primary/50'
+          }`}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
+          <Upload className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-medium mb-2">
+            Drop files or folders here or click to browse
+          </h3>
+          <p className="text-muted-foreground mb-4">
+            Maximum file size: 2GB
+          </p>
+          <div className="flex items-center justify-center gap-2">
+            <Button
+              onClick={() => fileInputRef.current?.click()}
+              className="security-glow"
+            >
+              Choose Files
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => folderInputRef.current?.click()}
+            >
+              <FolderUp className="w-4 h-4 mr-2" />
+              Choose Folder
+            </Button>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+          <input
+            ref={folderInputRef}
+            type="file"
+            {...{ webkitdirectory: '' }}
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+        </div>
 
-        {/* Upload Progress */}
-        {isUploading && (
-          <div className="space-y-4">
-            <div className="flex items-center gap-3">
-              <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
-              <span className="text-sm">
-                {uploadProgress < 80 ? 'Encrypting file...' : 'Uploading...'}
-              </span>
+        {/* Security Notice */}
+        <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4">
+          <div className="flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-blue-500 mt-0.5 flex-shrink-0" />
+            <div className="text-sm">
+              <p className="font-medium text-blue-500 mb-1">Zero-Trust Encryption</p>
+              <p className="text-blue-400">
+                Your file is encrypted in your browser using AES-GCM before upload. 
+                The encryption key never leaves your device and is embedded in the download URL.
+                We never see your unencrypted data.
+              </p>
             </div>
-            <Progress value={uploadProgress} className="w-full" />
           </div>
-        )}
+        </div>
 
-        {/* Upload Result */}
-        {uploadResult && (
-          <div className="space-y-4">
-            <div className="flex items-center gap-2 text-green-500">
-              <FileCheck className="w-5 h-5" />
-              <span className="font-medium">File uploaded successfully!</span>
-            </div>
-            
-            <div className="space-y-3">
-              <div>
-                <Label className="text-sm font-medium">File ID</Label>
-                <div className="flex items-center gap-2 mt-1">
-                  <code className="bg-muted px-2 py-1 rounded text-sm font-mono">
-                    {uploadResult.fileId}
-                  </code>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => copyToClipboard(uploadResult.fileId)}
-                  >
-                    <Copy className="w-3 h-3" />
-                  </Button>
-                </div>
-              </div>
-              
-              <div>
-                <Label className="text-sm font-medium">Secure Download Link</Label>
-                <div className="flex items-center gap-2 mt-1">
-                  <Input
-                    value={uploadResult.downloadUrl}
-                    readOnly
-                    className="font-mono text-xs"
-                  />
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => copyToClipboard(uploadResult.downloadUrl)}
-                  >
-                    <Copy className="w-3 h-3" />
+        {/* Upload Queue */}
+        {queue.items.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">
+                {activeCount > 0
+                  ? `Uploading ${activeCount} of ${queue.items.length} file${queue.items.length === 1 ? '' : 's'}`
+                  : `${queue.items.length} file${queue.items.length === 1 ? '' : 's'} processed`}
+              </p>
+              <div className="flex items-center gap-2">
+                {activeCount > 0 && (
+                  <Button variant="ghost" size="sm" onClick={queue.cancelAll}>
+                    Cancel All
                   </Button>
-                  <Button
-                    size="sm"
-                    variant="outline"
-                    onClick={() => openDownloadLink(uploadResult.downloadUrl)}
-                  >
-                    <ExternalLink className="w-3 h-3" />
+                )}
+                {finishedCount > 0 && (
+                  <Button variant="ghost" size="sm" onClick={queue.clearFinished}>
+                    Clear Finished
                   </Button>
-                </div>
+                )}
               </div>
             </div>
 
-            <div className="bg-green-500/10 border border-green-500/20 rounded-lg p-4">
-              <div className="flex items-start gap-3">
-                <FileCheck className="w-5 h-5 text-green-500 mt-0.5 flex-shrink-0" />
-                <div className="text-sm">
-                  <p className="font-medium text-green-500 mb-1">Secure Sharing</p>
-                  <p className="text-green-400">
-                    Share this link with anyone you trust. The encryption key is embedded 
-                    in the URL fragment and never sent to our servers.
-                  </p>
+            {queue.items.map((item) => (
+              <div key={item.id} className="p-3 border border-border rounded-lg space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-sm font-mono truncate" title={item.relativePath}>
+                    {item.relativePath}
+                  </span>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {item.status === 'pending' && (
+                      <>
+                        <Badge variant="secondary">Queued</Badge>
+                        <Button variant="ghost" size="sm" onClick={() => queue.cancel(item.id)}>
+                          <X className="w-3 h-3" />
+                        </Button>
+                      </>
+                    )}
+                    {item.status === 'done' && item.result && (
+                      <>
+                        <FileCheck className="w-4 h-4 text-green-500" />
+                        <Button size="sm" variant="ghost" onClick={() => item.result && copyToClipboard(item.result.downloadUrl)}>
+                          <Copy className="w-3 h-3" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => item.result && openDownloadLink(item.result.downloadUrl)}>
+                          <ExternalLink className="w-3 h-3" />
+                        </Button>
+                      </>
+                    )}
+                    {(item.status === 'failed' || item.status === 'cancelled') && (
+                      <>
+                        <Badge variant={item.status === 'failed' ? 'destructive' : 'secondary'}>
+                          {item.status === 'failed' ? 'Failed' : 'Cancelled'}
+                        </Badge>
+                        <Button variant="ghost" size="sm" onClick={() => queue.retry(item.id)}>
+                          <RotateCcw className="w-3 h-3" />
+                        </Button>
+                      </>
+                    )}
+                    {item.status === 'skipped' && (
+                      <Badge variant="secondary">Skipped</Badge>
+                    )}
+                  </div>
                 </div>
+                {item.status === 'uploading' && (
+                  <TransferProgressBar progress={item.progress} onCancel={() => queue.cancel(item.id)} />
+                )}
+                {(item.status === 'failed' || item.status === 'skipped') && item.error && (
+                  <p className="text-xs text-muted-foreground">{item.error}</p>
+                )}
               </div>
-            </div>
+            ))}
 
-            <Button
-              variant="outline"
-              onClick={() => setUploadResult(null)}
-              className="w-full"
-            >
-              Upload Another File
-            </Button>
+            {queue.items.some(item => item.status === 'done') && (
+              <p className="text-xs text-muted-foreground">
+                Share these links with anyone you trust. The encryption key is embedded
+                in the URL fragment and never sent to our servers.
+              </p>
+            )}
           </div>
         )}
+
       </CardContent>
     </Card>
   );
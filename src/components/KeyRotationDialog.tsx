@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { RotateCcw } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface KeyRotationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const KeyRotationDialog: React.FC<KeyRotationDialogProps> = ({ open, onOpenChange }) => {
+  const { rotateKeys } = useAuth();
+  const [password, setPassword] = useState('');
+  const [rotating, setRotating] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) {
+      setPassword('');
+      setProgress(0);
+    }
+  }, [open]);
+
+  const handleRotate = async () => {
+    try {
+      setRotating(true);
+      await rotateKeys(password, (done, total) => setProgress(Math.round((done / total) * 100)));
+      toast({
+        title: "Keys rotated",
+        description: "Your file index and activity log are now encrypted under a new vault key."
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Key rotation error:', error);
+      toast({
+        title: "Key rotation failed",
+        description: (error as Error).message || "Sign in again to resume the rotation",
+        variant: "destructive"
+      });
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !rotating && onOpenChange(next)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RotateCcw className="w-5 h-5 text-primary" />
+            Rotate Vault Keys
+          </DialogTitle>
+          <DialogDescription>
+            Creates a new vault key and re-encrypts your file index and activity log under it.
+            Use this if you think a device you signed in on was compromised. You will get a new
+            recovery phrase and the old one will stop working. If the tab closes part-way, the
+            rotation finishes the next time you sign in.
+          </DialogDescription>
+        </DialogHeader>
+
+        {rotating ? (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">Re-encrypting your data...</p>
+            <Progress value={progress} className="w-full" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="rotation-password">Confirm your password</Label>
+            <Input
+              id="rotation-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={rotating}>
+            Cancel
+          </Button>
+          <Button onClick={handleRotate} disabled={rotating || !password}>
+            {rotating ? 'Rotating...' : 'Rotate Keys'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Split, Copy } from 'lucide-react';
+import { createKeyShareLinks, MAX_KEY_SHARES } from '@/lib/keyShares';
+import type { EncryptedFileMetadata } from '@/lib/fileManager';
+
+interface KeySharesDialogProps {
+  file: EncryptedFileMetadata | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const KeySharesDialog: React.FC<KeySharesDialogProps> = ({ file, onOpenChange }) => {
+  const [count, setCount] = useState(3);
+  const [threshold, setThreshold] = useState(2);
+  const [links, setLinks] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setCount(3);
+    setThreshold(2);
+    setLinks([]);
+  }, [file]);
+
+  const invalid = threshold < 2 || count < threshold || count > MAX_KEY_SHARES;
+
+  const handleCreate = async () => {
+    if (!file) return;
+
+    try {
+      setCreating(true);
+      setLinks(await createKeyShareLinks(file, count, threshold));
+    } catch (error) {
+      console.error('Key split error:', error);
+      toast({
+        title: "Could not create share links",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async (link: string, index: number) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({
+        title: "Share link copied",
+        description: `Share ${index + 1} of ${links.length} - send each share through a different channel`
+      });
+    } catch (error) {
+      console.error('Copy error:', error);
+    }
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Split className="w-5 h-5 text-primary" />
+            Split Key into Shares
+          </DialogTitle>
+          <DialogDescription>
+            Split the key of <strong>{file?.originalName}</strong> into several links. Any{' '}
+            {threshold} of them open the file; fewer reveal nothing about the key. Each time you
+            split, you get a new set of links - shares from different sets can't be combined.
+          </DialogDescription>
+        </DialogHeader>
+
+        {links.length === 0 ? (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="share-count">Number of shares</Label>
+              <Input
+                id="share-count"
+                type="number"
+                min="2"
+                max={MAX_KEY_SHARES}
+                value={count}
+                onChange={(e) => setCount(parseInt(e.target.value) || 0)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="share-threshold">Needed to open</Label>
+              <Input
+                id="share-threshold"
+                type="number"
+                min="2"
+                max={count}
+                value={threshold}
+                onChange={(e) => setThreshold(parseInt(e.target.value) || 0)}
+              />
+            </div>
+            {invalid && (
+              <p className="col-span-2 text-sm text-destructive">
+                Choose between 2 and {MAX_KEY_SHARES} shares, with at least 2 needed to open.
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {links.map((link, index) => (
+              <div key={link} className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground w-16 flex-shrink-0">Share {index + 1}</span>
+                <Input value={link} readOnly className="font-mono text-xs" />
+                <Button variant="outline" size="sm" onClick={() => handleCopy(link, index)}>
+                  <Copy className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          {links.length === 0 ? (
+            <Button onClick={handleCreate} disabled={creating || invalid}>
+              {creating ? 'Splitting...' : 'Create Share Links'}
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Done
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
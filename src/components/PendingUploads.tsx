@@ -0,0 +1,149 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { TransferProgressBar } from '@/components/TransferProgressBar';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { CloudUpload, File, Play, Trash2 } from 'lucide-react';
+import { resumePendingUpload, type TransferProgress } from '@/lib/fileManager';
+import { listPendingUploads, deletePendingUpload, type PendingUploadSummary } from '@/lib/pendingUploads';
+import { isCancelled } from '@/lib/cryptoWorker';
+
+interface PendingUploadsProps {
+  refreshTrigger?: number;
+  onUploadComplete?: () => void;
+}
+
+// Uploads left unfinished by an earlier visit (reload, closed tab, lost connection)
+export const PendingUploads: React.FC<PendingUploadsProps> = ({ refreshTrigger, onUploadComplete }) => {
+  const { user } = useAuth();
+  const [uploads, setUploads] = useState<PendingUploadSummary[]>([]);
+  const [resuming, setResuming] = useState<string | null>(null);
+  const [progress, setProgress] = useState<TransferProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+
+  const loadUploads = useCallback(async () => {
+    if (!user) return;
+    try {
+      setUploads(await listPendingUploads(user.id));
+    } catch (error) {
+      console.error('Error loading unfinished uploads:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadUploads();
+  }, [loadUploads, refreshTrigger]);
+
+  const handleResume = async (upload: PendingUploadSummary) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      setResuming(upload.fileId);
+      setProgress(null);
+      await resumePendingUpload(upload.fileId, { signal: controller.signal, onProgress: setProgress });
+      toast({
+        title: "Upload finished",
+        description: `${upload.name} has been uploaded`
+      });
+      onUploadComplete?.();
+    } catch (error) {
+      if (isCancelled(error)) {
+        toast({
+          title: "Upload cancelled",
+          description: `${upload.name} was discarded`
+        });
+      } else {
+        console.error('Resume upload error:', error);
+        toast({
+          title: "Upload failed",
+          description: (error as Error).message,
+          variant: "destructive"
+        });
+      }
+    } finally {
+      abortRef.current = null;
+      setResuming(null);
+      setProgress(null);
+      loadUploads();
+    }
+  };
+
+  const handleDiscard = async (upload: PendingUploadSummary) => {
+    try {
+      await deletePendingUpload(upload.fileId);
+      setUploads(prev => prev.filter(u => u.fileId !== upload.fileId));
+    } catch (error) {
+      console.error('Discard upload error:', error);
+      toast({
+        title: "Could not discard upload",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const formatFileSize = (bytes: number): string => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  if (uploads.length === 0) return null;
+
+  return (
+    <Card className="bg-card/50 backdrop-blur-sm border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CloudUpload className="w-5 h-5 text-primary" />
+          Unfinished Uploads
+        </CardTitle>
+        <CardDescription>
+          These files were encrypted but not fully uploaded. Resume to continue where they stopped.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {uploads.map(upload => (
+          <div key={upload.fileId} className="p-3 rounded-lg border border-border/50 bg-background/50 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3 min-w-0">
+                <File className="w-5 h-5 text-muted-foreground flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{upload.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(upload.size)} • started {new Date(upload.createdAt).toLocaleString()}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => handleResume(upload)}
+                  disabled={resuming !== null}
+                >
+                  <Play className="w-3 h-3 mr-1" />
+                  Resume
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleDiscard(upload)}
+                  disabled={resuming !== null}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+            {resuming === upload.fileId && (
+              <TransferProgressBar progress={progress} onCancel={() => abortRef.current?.abort()} />
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,13 +1,15 @@
 import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { VaultUnlock } from '@/components/VaultUnlock';
+import { RecoveryPhraseSetup } from '@/components/RecoveryPhraseSetup';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
 }
 
 export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { user, loading } = useAuth();
+  const { user, loading, vaultStatus, recoveryPhrase } = useAuth();
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -16,7 +18,7 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     }
   }, [user, loading, navigate]);
 
-  if (loading) {
+  if (loading || (user && vaultStatus === 'checking')) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-dark">
         <div className="flex items-center gap-3">
@@ -31,5 +33,13 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return null;
   }
 
+  if (vaultStatus !== 'unlocked') {
+    return <VaultUnlock />;
+  }
+
+  if (recoveryPhrase) {
+    return <RecoveryPhraseSetup />;
+  }
+
   return <>{children}</>;
 };
\ No newline at end of file
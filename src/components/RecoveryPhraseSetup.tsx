@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, Copy, ShieldCheck } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Shows a newly issued recovery phrase once, until the user confirms they have saved it
+export const RecoveryPhraseSetup: React.FC = () => {
+  const { recoveryPhrase, dismissRecoveryPhrase } = useAuth();
+  const [confirmed, setConfirmed] = useState(false);
+  const { toast } = useToast();
+
+  if (!recoveryPhrase) return null;
+  const words = recoveryPhrase.split(' ');
+
+  const copyPhrase = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryPhrase);
+      toast({
+        title: "Copied to clipboard",
+        description: "Store it somewhere safe, then clear your clipboard"
+      });
+    } catch (error) {
+      console.error('Copy error:', error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-dark p-4">
+      <Card className="w-full max-w-lg bg-card/50 backdrop-blur-sm border-border/50">
+        <CardHeader className="text-center">
+          <CardTitle className="flex items-center justify-center gap-2">
+            <ShieldCheck className="w-6 h-6 text-primary" />
+            Your Recovery Phrase
+          </CardTitle>
+          <CardDescription>
+            Write these {words.length} words down in order and keep them somewhere safe.
+            You will need them to reset your password without losing your files.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <ol className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {words.map((word, i) => (
+              <li
+                key={i}
+                className="flex items-center gap-2 rounded-md border border-border bg-background/30 px-3 py-2 font-mono text-sm"
+              >
+                <span className="text-muted-foreground w-5 text-right">{i + 1}.</span>
+                <span>{word}</span>
+              </li>
+            ))}
+          </ol>
+
+          <Button variant="outline" className="w-full" onClick={copyPhrase}>
+            <Copy className="w-4 h-4 mr-2" />
+            Copy Phrase
+          </Button>
+
+          <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="w-5 h-5 text-destructive mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-destructive">
+                This is the only time the phrase is shown. We can't see it or recover it for you.
+                If you forget your password and lose this phrase, your stored file keys and
+                activity history are gone for good.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="phrase-saved"
+              checked={confirmed}
+              onCheckedChange={(checked) => setConfirmed(checked === true)}
+            />
+            <Label htmlFor="phrase-saved" className="text-sm">
+              I have saved my recovery phrase
+            </Label>
+          </div>
+
+          <Button className="w-full security-glow" disabled={!confirmed} onClick={dismissRecoveryPhrase}>
+            Continue
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/hooks/use-toast';
+import { StickyNote, FileCheck, Copy, Flame } from 'lucide-react';
+import { createSecretNote, MAX_NOTE_LENGTH } from '@/lib/secretNotes';
+
+interface SecretNoteFormProps {
+  onNoteCreated?: () => void;
+}
+
+export const SecretNoteForm: React.FC<SecretNoteFormProps> = ({ onNoteCreated }) => {
+  const [text, setText] = useState('');
+  const [expiryDays, setExpiryDays] = useState<number>(7);
+  const [burnAfterReading, setBurnAfterReading] = useState(true);
+  const [maxViews, setMaxViews] = useState<number>(0);
+  const [creating, setCreating] = useState(false);
+  const [noteUrl, setNoteUrl] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const handleCreate = async () => {
+    try {
+      setCreating(true);
+      const views = burnAfterReading ? 1 : maxViews > 0 ? maxViews : undefined;
+      const result = await createSecretNote(text, expiryDays > 0 ? expiryDays : undefined, views);
+      setNoteUrl(result.downloadUrl);
+      setText('');
+      onNoteCreated?.();
+    } catch (error) {
+      console.error('Secret note error:', error);
+      toast({
+        title: "Could not create note",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const copyToClipboard = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Copied to clipboard",
+        description: "Note link has been copied"
+      });
+    } catch (error) {
+      console.error('Copy error:', error);
+    }
+  };
+
+  return (
+    <Card className="bg-card/50 backdrop-blur-sm border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <StickyNote className="w-5 h-5 text-primary" />
+          Secret Note
+        </CardTitle>
+        <CardDescription>
+          Share a password or config snippet. It is encrypted in your browser like a file upload.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {noteUrl ? (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-green-500">
+              <FileCheck className="w-5 h-5" />
+              <span className="font-medium">Note created!</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input value={noteUrl} readOnly className="font-mono text-xs" />
+              <Button size="sm" variant="outline" onClick={() => copyToClipboard(noteUrl)}>
+                <Copy className="w-3 h-3" />
+              </Button>
+            </div>
+            <Button variant="outline" onClick={() => setNoteUrl(null)} className="w-full">
+              Write Another Note
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="note-text">Note</Label>
+              <Textarea
+                id="note-text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder="Paste the secret here"
+                className="font-mono text-sm min-h-[160px]"
+                maxLength={MAX_NOTE_LENGTH}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="note-expiry">Expiry</Label>
+                <select
+                  id="note-expiry"
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                  value={expiryDays}
+                  onChange={(e) => setExpiryDays(parseInt(e.target.value))}
+                >
+                  <option value={1}>1 day</option>
+                  <option value={7}>1 week</option>
+                  <option value={30}>1 month</option>
+                  <option value={0}>Never expires</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="note-views">Max Views</Label>
+                <Input
+                  id="note-views"
+                  type="number"
+                  min="0"
+                  max="1000"
+                  value={burnAfterReading ? 1 : maxViews}
+                  onChange={(e) => setMaxViews(parseInt(e.target.value) || 0)}
+                  placeholder="0 for unlimited"
+                  disabled={burnAfterReading}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="burn-after-reading"
+                checked={burnAfterReading}
+                onCheckedChange={(checked) => setBurnAfterReading(checked === true)}
+              />
+              <Label htmlFor="burn-after-reading" className="flex items-center gap-1">
+                <Flame className="w-4 h-4 text-orange-500" />
+                Burn after reading
+              </Label>
+            </div>
+
+            <Button
+              onClick={handleCreate}
+              disabled={creating || !text.trim()}
+              className="w-full security-glow"
+            >
+              {creating ? 'Encrypting...' : 'Create Secret Link'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { StickyNote, Eye, Copy, FileX, Loader2, Flame } from 'lucide-react';
+import { parseUrlFragment, base64ToArrayBuffer } from '@/lib/encryption';
+import { readSecretNote, type SecretNote } from '@/lib/secretNotes';
+
+export const SecretNoteView: React.FC = () => {
+  const { fileId } = useParams<{ fileId: string }>();
+  const [note, setNote] = useState<SecretNote | null>(null);
+  const [revealing, setRevealing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    try {
+      const { key } = parseUrlFragment();
+      if (!key) {
+        setError('Invalid note link - encryption key missing');
+        return;
+      }
+      base64ToArrayBuffer(key);
+    } catch (err) {
+      console.error('Invalid URL key:', err);
+      setError('Invalid note link - encryption key is corrupted');
+    }
+  }, []);
+
+  // The note is only fetched on request, so link previews don't use up its views
+  const handleReveal = async () => {
+    const { key } = parseUrlFragment();
+    if (!fileId || !key) return;
+
+    try {
+      setRevealing(true);
+      setNote(await readSecretNote(fileId, key));
+    } catch (error) {
+      console.error('Secret note error:', error);
+      setError((error as Error).message || 'Could not open the note');
+    } finally {
+      setRevealing(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!note) return;
+    try {
+      await navigator.clipboard.writeText(note.text);
+      toast({
+        title: "Copied to clipboard",
+        description: "The note has been copied"
+      });
+    } catch (error) {
+      console.error('Copy error:', error);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-dark p-4">
+        <Card className="w-full max-w-md bg-card/50 backdrop-blur-sm border-border/50">
+          <CardContent className="p-6 text-center">
+            <FileX className="w-12 h-12 text-destructive mx-auto mb-4" />
+            <h2 className="text-xl font-bold mb-2">Note Unavailable</h2>
+            <p className="text-muted-foreground">{error}</p>
+            <p className="text-sm text-muted-foreground mt-4">
+              Notes disappear once they have been read or have expired.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-dark p-4">
+      <Card className="w-full max-w-lg bg-card/50 backdrop-blur-sm border-border/50">
+        <CardHeader className="text-center">
+          <CardTitle className="flex items-center justify-center gap-2">
+            <StickyNote className="w-6 h-6 text-primary" />
+            Secret Note
+          </CardTitle>
+          <CardDescription>
+            This note is encrypted and will be decrypted in your browser.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {note ? (
+            <>
+              <Textarea value={note.text} readOnly className="font-mono text-sm min-h-[200px]" />
+              <Button onClick={handleCopy} className="w-full">
+                <Copy className="w-4 h-4 mr-2" />
+                Copy to Clipboard
+              </Button>
+              <p className="text-xs text-muted-foreground text-center">
+                Save it now if you need it - this note may not be viewable again.
+              </p>
+            </>
+          ) : (
+            <>
+              <div className="bg-orange-500/10 border border-orange-500/20 rounded-lg p-4">
+                <div className="flex items-start gap-3">
+                  <Flame className="w-5 h-5 text-orange-500 mt-0.5 flex-shrink-0" />
+                  <p className="text-sm text-orange-400">
+                    Notes are usually set to burn after reading. Once you open it, this link may stop working.
+                  </p>
+                </div>
+              </div>
+              <Button onClick={handleReveal} disabled={revealing} className="w-full security-glow" size="lg">
+                {revealing ? (
+                  <>
+                    <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                    Decrypting...
+                  </>
+                ) : (
+                  <>
+                    <Eye className="w-5 h-5 mr-2" />
+                    Reveal Note
+                  </>
+                )}
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,247 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Link2, Copy, X, RefreshCw, KeyRound } from 'lucide-react';
+import {
+  createShareLink,
+  listShareLinks,
+  revokeShareLink,
+  type ShareLink
+} from '@/lib/shareLinks';
+import { MIN_SHARE_PASSWORD_LENGTH } from '@/lib/sharePassword';
+import type { EncryptedFileMetadata } from '@/lib/fileManager';
+
+interface ShareLinksDialogProps {
+  file: EncryptedFileMetadata | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ShareLinksDialog: React.FC<ShareLinksDialogProps> = ({ file, onOpenChange }) => {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [label, setLabel] = useState('');
+  const [expiryDays, setExpiryDays] = useState(0);
+  const [maxDownloads, setMaxDownloads] = useState(0);
+  const [password, setPassword] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const { toast } = useToast();
+  const fileId = file?.fileId;
+
+  const loadLinks = useCallback(async () => {
+    if (!fileId) return;
+    try {
+      setLinks(await listShareLinks(fileId));
+    } catch (error) {
+      console.error('Error loading share links:', error);
+    }
+  }, [fileId]);
+
+  useEffect(() => {
+    setLabel('');
+    setExpiryDays(0);
+    setMaxDownloads(0);
+    setPassword('');
+    setLinks([]);
+    loadLinks();
+  }, [loadLinks]);
+
+  const passwordTooShort = password.length > 0 && password.length < MIN_SHARE_PASSWORD_LENGTH;
+
+  const copyLink = async (url: string, description: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link copied", description });
+    } catch (error) {
+      console.error('Copy error:', error);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!file) return;
+
+    try {
+      setCreating(true);
+      const url = await createShareLink(file, {
+        label: label.trim(),
+        expiryDays: expiryDays > 0 ? expiryDays : undefined,
+        maxDownloads: maxDownloads > 0 ? maxDownloads : undefined,
+        password: password || undefined
+      });
+      await copyLink(url, password
+        ? "New password-protected link copied - send the password separately"
+        : "New link copied to clipboard");
+      setLabel('');
+      setPassword('');
+      await loadLinks();
+    } catch (error) {
+      console.error('Share link error:', error);
+      toast({
+        title: "Could not create link",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!file) return;
+
+    try {
+      setRevoking(link.id);
+      await revokeShareLink(file, link.id);
+      setLinks(prev => prev.filter(l => l.id !== link.id));
+    } catch (error) {
+      console.error('Revoke error:', error);
+      toast({
+        title: "Could not revoke link",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const isExpired = (expiresAt?: string) => !!expiresAt && new Date(expiresAt) < new Date();
+
+  return (
+    <Dialog open={file !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Link2 className="w-5 h-5 text-primary" />
+            Share Links
+          </DialogTitle>
+          <DialogDescription>
+            Give each recipient of <strong>{file?.originalName}</strong> their own link, with its own
+            expiry, download limit and password. Downloads through a link only count against that
+            link, but no link outlives the file's own expiry. Revoking a link stops it working
+            without affecting the others, but not copies already downloaded through it. Once a file
+            has share links, its main link, password link and key shares stop working for recipients.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="link-label">Label</Label>
+              <Input
+                id="link-label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Who this link is for"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="link-expiry">Expires after (days)</Label>
+              <Input
+                id="link-expiry"
+                type="number"
+                min="0"
+                max="3650"
+                value={expiryDays}
+                onChange={(e) => setExpiryDays(parseInt(e.target.value) || 0)}
+                placeholder="0 for never"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="link-downloads">Max Downloads</Label>
+              <Input
+                id="link-downloads"
+                type="number"
+                min="0"
+                max="1000"
+                value={maxDownloads}
+                onChange={(e) => setMaxDownloads(parseInt(e.target.value) || 0)}
+                placeholder="0 for unlimited"
+              />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="link-password">Password (optional)</Label>
+              <Input
+                id="link-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder={`At least ${MIN_SHARE_PASSWORD_LENGTH} characters`}
+              />
+              {passwordTooShort && (
+                <p className="text-sm text-destructive">
+                  Use at least {MIN_SHARE_PASSWORD_LENGTH} characters
+                </p>
+              )}
+            </div>
+          </div>
+
+          {links.length > 0 && (
+            <div className="space-y-2">
+              <Label>Links</Label>
+              {links.map((link) => (
+                <div
+                  key={link.id}
+                  className="flex items-center justify-between gap-2 p-2 border border-border rounded-lg"
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium truncate">{link.label}</span>
+                      {link.hasPassword && <KeyRound className="w-3 h-3 text-primary flex-shrink-0" />}
+                      {isExpired(link.expiresAt) && <Badge variant="destructive">Expired</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {link.downloadCount} downloads{link.maxDownloads && ` / ${link.maxDownloads}`}
+                      {link.expiresAt && ` - expires ${new Date(link.expiresAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {link.url && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => link.url && copyLink(link.url, `Link for ${link.label} copied to clipboard`)}
+                      >
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevoke(link)}
+                      disabled={revoking === link.id}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      {revoking === link.id ? (
+                        <RefreshCw className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <X className="w-4 h-4" />
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleCreate} disabled={creating || !label.trim() || passwordTooShort}>
+            {creating ? 'Creating...' : 'Create Link'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
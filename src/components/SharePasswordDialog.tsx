@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { KeyRound } from 'lucide-react';
+import { MIN_SHARE_PASSWORD_LENGTH } from '@/lib/sharePassword';
+
+interface SharePasswordDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (password: string | null) => void;
+  fileName: string;
+  hasPassword: boolean;
+  isSaving?: boolean;
+}
+
+export const SharePasswordDialog: React.FC<SharePasswordDialogProps> = ({
+  open,
+  onOpenChange,
+  onSave,
+  fileName,
+  hasPassword,
+  isSaving = false
+}) => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+
+  useEffect(() => {
+    if (!open) {
+      setPassword('');
+      setConfirmPassword('');
+    }
+  }, [open]);
+
+  const tooShort = password.length < MIN_SHARE_PASSWORD_LENGTH;
+  const mismatch = password !== confirmPassword;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="w-5 h-5 text-primary" />
+            Share Password
+          </DialogTitle>
+          <DialogDescription>
+            Recipients of <strong>{fileName}</strong> will need this password to download it.
+            Setting a new password replaces the previous password link. Links copied without a
+            password keep working until the file is deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="new-share-password">Password</Label>
+            <Input
+              id="new-share-password"
+              type="password"
+              autoComplete="new-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder={`At least ${MIN_SHARE_PASSWORD_LENGTH} characters`}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-share-password">Confirm Password</Label>
+            <Input
+              id="confirm-share-password"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+            />
+            {confirmPassword && mismatch && (
+              <p className="text-sm text-destructive">Passwords do not match</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          {hasPassword && (
+            <Button
+              variant="outline"
+              onClick={() => onSave(null)}
+              disabled={isSaving}
+              className="text-destructive hover:text-destructive"
+            >
+              Remove Password
+            </Button>
+          )}
+          <Button
+            onClick={() => onSave(password)}
+            disabled={isSaving || tooShort || mismatch}
+          >
+            {isSaving ? 'Saving...' : 'Save Password'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
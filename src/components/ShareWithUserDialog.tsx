@@ -0,0 +1,201 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { UserPlus, X, RefreshCw, Fingerprint } from 'lucide-react';
+import {
+  findShareRecipient,
+  shareFileWithUser,
+  getFileRecipients,
+  revokeFileShare,
+  type ShareRecipient,
+  type FileRecipient
+} from '@/lib/directShare';
+import type { EncryptedFileMetadata } from '@/lib/fileManager';
+
+interface ShareWithUserDialogProps {
+  file: EncryptedFileMetadata | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ShareWithUserDialog: React.FC<ShareWithUserDialogProps> = ({ file, onOpenChange }) => {
+  const [email, setEmail] = useState('');
+  const [recipients, setRecipients] = useState<FileRecipient[]>([]);
+  const [found, setFound] = useState<ShareRecipient | null>(null);
+  const [sharing, setSharing] = useState(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const { toast } = useToast();
+  const fileId = file?.fileId;
+
+  const loadRecipients = useCallback(async () => {
+    if (!fileId) return;
+    try {
+      setRecipients(await getFileRecipients(fileId));
+    } catch (error) {
+      console.error('Error loading recipients:', error);
+    }
+  }, [fileId]);
+
+  useEffect(() => {
+    setEmail('');
+    setFound(null);
+    setRecipients([]);
+    loadRecipients();
+  }, [loadRecipients]);
+
+  // Look the account up first, so its key fingerprint can be checked before sharing
+  const handleLookup = async () => {
+    try {
+      setSharing(true);
+      setFound(await findShareRecipient(email));
+    } catch (error) {
+      console.error('Recipient lookup error:', error);
+      toast({
+        title: "Could not find account",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!file || !found) return;
+
+    try {
+      setSharing(true);
+      await shareFileWithUser(file, found);
+      setEmail('');
+      setFound(null);
+      await loadRecipients();
+      toast({
+        title: "File shared",
+        description: `${file.originalName} now appears in ${found.email}'s dashboard`
+      });
+    } catch (error) {
+      console.error('Share error:', error);
+      toast({
+        title: "Could not share file",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const handleRevoke = async (recipient: FileRecipient) => {
+    if (!file) return;
+
+    try {
+      setRevoking(recipient.recipientId);
+      await revokeFileShare(file.fileId, recipient.recipientId);
+      setRecipients(prev => prev.filter(r => r.recipientId !== recipient.recipientId));
+    } catch (error) {
+      console.error('Revoke error:', error);
+      toast({
+        title: "Could not stop sharing",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserPlus className="w-5 h-5 text-primary" />
+            Share with Users
+          </DialogTitle>
+          <DialogDescription>
+            Share <strong>{file?.originalName}</strong> with another account. Its key is encrypted to
+            their public key, so only they can open it - no link needed. Removing someone stops
+            new downloads, but not copies they already saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="share-email">Email address</Label>
+            <Input
+              id="share-email"
+              type="email"
+              value={email}
+              onChange={(e) => {
+                setEmail(e.target.value);
+                setFound(null);
+              }}
+              placeholder="someone@example.com"
+            />
+          </div>
+
+          {found && (
+            <div className="p-3 border border-border rounded-lg space-y-1">
+              <p className="text-sm font-medium">{found.name || found.email}</p>
+              <p className="flex items-center gap-2 text-sm font-mono">
+                <Fingerprint className="w-4 h-4 text-primary flex-shrink-0" />
+                {found.fingerprint}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Check this matches the key fingerprint on their dashboard, over a channel you trust.
+                If it doesn't, the key isn't theirs - don't share.
+              </p>
+            </div>
+          )}
+
+          {recipients.length > 0 && (
+            <div className="space-y-2">
+              <Label>Shared with</Label>
+              {recipients.map((recipient) => (
+                <div
+                  key={recipient.recipientId}
+                  className="flex items-center justify-between p-2 border border-border rounded-lg"
+                >
+                  <span className="text-sm truncate">{recipient.email}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRevoke(recipient)}
+                    disabled={revoking === recipient.recipientId}
+                  >
+                    {revoking === recipient.recipientId ? (
+                      <RefreshCw className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <X className="w-4 h-4" />
+                    )}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {found ? (
+            <Button onClick={handleShare} disabled={sharing}>
+              {sharing ? 'Sharing...' : 'Share'}
+            </Button>
+          ) : (
+            <Button onClick={handleLookup} disabled={sharing || !email.trim()}>
+              {sharing ? 'Looking up...' : 'Find Account'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
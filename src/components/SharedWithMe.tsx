@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Users, File, Download, RefreshCw, Clock } from 'lucide-react';
+import { downloadEncryptedFile } from '@/lib/fileManager';
+import { isCancelled } from '@/lib/cryptoWorker';
+import { getFilesSharedWithMe, type SharedFile } from '@/lib/directShare';
+
+interface SharedWithMeProps {
+  refreshTrigger?: number;
+}
+
+export const SharedWithMe: React.FC<SharedWithMeProps> = ({ refreshTrigger }) => {
+  const [files, setFiles] = useState<SharedFile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadFiles = async () => {
+    try {
+      setLoading(true);
+      setFiles(await getFilesSharedWithMe());
+    } catch (error) {
+      console.error('Error loading shared files:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadFiles();
+  }, [refreshTrigger]);
+
+  const handleDownload = async (file: SharedFile) => {
+    try {
+      setDownloading(file.fileId);
+      await downloadEncryptedFile(file.fileId, file.key);
+      toast({
+        title: "Download complete",
+        description: `${file.originalName} has been saved`
+      });
+    } catch (error) {
+      // Closing the save dialog cancels the download; nothing to report
+      if (isCancelled(error)) return;
+      console.error('Download error:', error);
+      toast({
+        title: "Download failed",
+        description: (error as Error).message,
+        variant: "destructive"
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const formatFileSize = (bytes: number): string => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  const isExpired = (expiresAt?: string): boolean => {
+    if (!expiresAt) return false;
+    return new Date(expiresAt) < new Date();
+  };
+
+  // Nothing to show until someone shares a file with this account
+  if (!loading && files.length === 0) return null;
+
+  return (
+    <Card className="bg-card/50 backdrop-blur-sm border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Shared with Me ({files.length})
+        </CardTitle>
+        <CardDescription>
+          Files other accounts shared with you. Their keys are encrypted to your account key.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center">
+            <RefreshCw className="w-6 h-6 animate-spin text-primary mr-2" />
+            <span>Loading shared files...</span>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {files.map((file) => (
+              <div
+                key={file.fileId}
+                className="flex items-center justify-between p-4 border border-border rounded-lg bg-background/30"
+              >
+                <div className="flex items-center gap-4 flex-1">
+                  <div className="p-2 bg-primary/10 rounded-lg">
+                    <File className="w-5 h-5 text-primary" />
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <h4 className="font-medium truncate">{file.originalName}</h4>
+                    <div className="flex items-center gap-4 text-sm text-muted-foreground mt-1">
+                      <span>{formatFileSize(file.size)}</span>
+                      <span>From {file.ownerName}</span>
+                      <span className="flex items-center gap-1">
+                        <Clock className="w-3 h-3" />
+                        {new Date(file.sharedAt).toLocaleDateString()}
+                      </span>
+                      {file.expiresAt && (
+                        <span className={isExpired(file.expiresAt) ? 'text-destructive' : ''}>
+                          Expires {new Date(file.expiresAt).toLocaleDateString()}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                <Button
+                  variant="default"
+                  size="sm"
+                  onClick={() => handleDownload(file)}
+                  disabled={isExpired(file.expiresAt) || downloading === file.fileId}
+                >
+                  {downloading === file.fileId ? (
+                    <RefreshCw className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Download className="w-4 h-4" />
+                  )}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Loader2, X } from 'lucide-react';
+import type { TransferPhase, TransferProgress } from '@/lib/fileManager';
+
+interface TransferProgressBarProps {
+  progress: TransferProgress | null;
+  onCancel: () => void;
+}
+
+const PHASE_LABELS: Record<TransferPhase, string> = {
+  encrypting: 'Encrypting',
+  uploading: 'Uploading',
+  downloading: 'Downloading',
+  decrypting: 'Decrypting'
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+export const TransferProgressBar: React.FC<TransferProgressBarProps> = ({ progress, onCancel }) => {
+  const percent = progress && progress.total > 0
+    ? Math.min(100, Math.round((progress.done / progress.total) * 100))
+    : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin text-primary" />
+          <span>{progress ? `${PHASE_LABELS[progress.phase]}... ${percent}%` : 'Preparing...'}</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          <X className="w-4 h-4 mr-1" />
+          Cancel
+        </Button>
+      </div>
+      <Progress value={percent} className="w-full" />
+      {progress && progress.total > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {formatBytes(progress.done)} of {formatBytes(progress.total)}
+        </p>
+      )}
+    </div>
+  );
+};
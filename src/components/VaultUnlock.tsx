@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { signInWithAccountPassword } from '@/lib/authPassword';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Password prompt shown by ProtectedRoute until the vault key is in memory
+export const VaultUnlock: React.FC = () => {
+  const { user, vaultStatus, openVault, signOut } = useAuth();
+  const [password, setPassword] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isSetup = vaultStatus === 'missing';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.email) return;
+
+    try {
+      setUnlocking(true);
+      setError(null);
+
+      // A new vault is wrapped under the account password, so check it really is that
+      if (isSetup) {
+        const { error: signInError } = await signInWithAccountPassword(user.email, password);
+        if (signInError) {
+          setError('Incorrect password');
+          return;
+        }
+      }
+
+      if (!(await openVault(password))) {
+        setError('Incorrect password');
+      }
+    } catch (error) {
+      console.error('Vault unlock error:', error);
+      setError((error as Error).message || 'Could not unlock your vault');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-dark p-4">
+      <Card className="w-full max-w-md bg-card/50 backdrop-blur-sm border-border/50">
+        <CardHeader className="text-center">
+          <CardTitle className="flex items-center justify-center gap-2">
+            <KeyRound className="w-6 h-6 text-primary" />
+            {isSetup ? 'Set Up Your Vault' : 'Unlock Your Vault'}
+          </CardTitle>
+          <CardDescription>
+            {isSetup
+              ? 'Your file keys and activity log are encrypted with a vault key protected by your password. Enter your password to create it.'
+              : 'Enter your password to decrypt your file keys. It never leaves this device.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="vault-password">Password</Label>
+              <Input
+                id="vault-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={unlocking}
+                autoFocus
+              />
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+
+            <Button type="submit" className="w-full security-glow" disabled={unlocking || !password}>
+              {unlocking ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  {isSetup ? 'Setting up...' : 'Unlocking...'}
+                </>
+              ) : (
+                isSetup ? 'Set Up Vault' : 'Unlock'
+              )}
+            </Button>
+
+            <Button type="button" variant="ghost" className="w-full" onClick={signOut} disabled={unlocking}>
+              Sign out
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
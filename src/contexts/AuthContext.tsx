@@ -1,11 +1,31 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import {
+  hasVault,
+  createVault,
+  unlockVault,
+  lockVault,
+  isVaultUnlocked,
+  needsRecoveryPhrase,
+  setupRecoveryPhrase
+} from '@/lib/vault';
+import { SecureDataManager } from '@/lib/secureDataManager';
+import { rotateVaultKey, resumeKeyRotation, type RotationProgress } from '@/lib/keyRotation';
+import { ensureIdentityKeys } from '@/lib/identity';
+
+// checking: looking up the vault, missing: never set up, locked/unlocked: key not/in memory
+export type VaultStatus = 'checking' | 'missing' | 'locked' | 'unlocked';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
+  vaultStatus: VaultStatus;
+  openVault: (password: string) => Promise<boolean>;
+  rotateKeys: (password: string, onProgress?: RotationProgress) => Promise<void>;
+  recoveryPhrase: string | null; // Newly issued phrase the user still has to write down
+  dismissRecoveryPhrase: () => void;
   signOut: () => Promise<void>;
 }
 
@@ -23,6 +43,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>('checking');
+  const [recoveryPhrase, setRecoveryPhrase] = useState<string | null>(null);
 
   useEffect(() => {
     // Set up auth state listener FIRST
@@ -44,7 +66,85 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return () => subscription.unsubscribe();
   }, []);
 
+  // Work out whether the signed-in user's vault needs unlocking or setting up
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      lockVault();
+      setVaultStatus('checking');
+      return;
+    }
+
+    let cancelled = false;
+    hasVault(userId)
+      .then((exists) => {
+        if (cancelled) return;
+        setVaultStatus(isVaultUnlocked(userId) ? 'unlocked' : exists ? 'locked' : 'missing');
+      })
+      .catch((error) => {
+        console.error('Vault lookup error:', error);
+        if (!cancelled) setVaultStatus('locked');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // Unlock the vault with the account password, creating it on first use
+  // Returns false if the password doesn't unwrap the vault key
+  const openVault = async (password: string): Promise<boolean> => {
+    const { data: { session: currentSession } } = await supabase.auth.getSession();
+    const sessionUserId = currentSession?.user.id;
+    if (!sessionUserId) throw new Error('User not authenticated');
+
+    if (await hasVault(sessionUserId)) {
+      if (!(await unlockVault(sessionUserId, password))) return false;
+    } else {
+      await createVault(sessionUserId, password);
+    }
+
+    // Finish a key rotation the user started before closing the tab, or otherwise move
+    // anything still under the old userId-derived keys over to the vault key
+    let rotatedPhrase: string | null = null;
+    try {
+      rotatedPhrase = await resumeKeyRotation(sessionUserId, password);
+      if (!rotatedPhrase) {
+        await SecureDataManager.reencryptUserData(sessionUserId);
+      }
+    } catch (error) {
+      console.error('Vault data migration error:', error);
+    }
+
+    // Accounts need an identity keypair before files can be shared with them
+    try {
+      await ensureIdentityKeys(sessionUserId);
+    } catch (error) {
+      console.error('Identity key setup error:', error);
+    }
+
+    // Vaults get a recovery phrase on first unlock; it is shown once and never stored readably
+    if (rotatedPhrase) {
+      setRecoveryPhrase(rotatedPhrase);
+    } else if (await needsRecoveryPhrase(sessionUserId)) {
+      setRecoveryPhrase(await setupRecoveryPhrase(sessionUserId));
+    }
+
+    setVaultStatus('unlocked');
+    return true;
+  };
+
+  // Rotate to a new vault key and show the new recovery phrase that comes with it
+  const rotateKeys = async (password: string, onProgress?: RotationProgress): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+    setRecoveryPhrase(await rotateVaultKey(user.id, password, onProgress));
+  };
+
+  const dismissRecoveryPhrase = () => setRecoveryPhrase(null);
+
   const signOut = async () => {
+    lockVault();
+    setRecoveryPhrase(null);
     try {
       // Clean up auth state
       Object.keys(localStorage).forEach((key) => {
@@ -74,6 +174,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     user,
     session,
     loading,
+    vaultStatus,
+    openVault,
+    rotateKeys,
+    recoveryPhrase,
+    dismissRecoveryPhrase,
     signOut,
   };
 
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { isCancelled } from '@/lib/cryptoWorker';
+import type { FileSource } from '@/lib/droppedFiles';
+import type { TransferProgress, UploadResult } from '@/lib/fileManager';
+
+// Uploads running at once; each holds its encrypted copy in memory while it uploads
+export const MAX_CONCURRENT_UPLOADS = 2;
+
+export type QueueItemStatus = 'pending' | 'uploading' | 'done' | 'failed' | 'skipped' | 'cancelled';
+
+// settings holds whatever the uploader chose for the batch the item was queued with
+export interface QueueItem<T> extends FileSource {
+  id: string;
+  settings: T;
+  status: QueueItemStatus;
+  progress: TransferProgress | null;
+  error?: string;
+  result?: UploadResult;
+}
+
+export interface QueueUploadOptions {
+  onProgress: (progress: TransferProgress) => void;
+  signal: AbortSignal;
+}
+
+// Runs uploads from a queue with bounded concurrency
+export function useUploadQueue<T>(
+  upload: (item: QueueItem<T>, options: QueueUploadOptions) => Promise<UploadResult>,
+  onItemDone?: (item: QueueItem<T>) => void
+) {
+  const [items, setItems] = useState<QueueItem<T>[]>([]);
+  const itemsRef = useRef<QueueItem<T>[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const uploadRef = useRef(upload);
+  const onItemDoneRef = useRef(onItemDone);
+  uploadRef.current = upload;
+  onItemDoneRef.current = onItemDone;
+
+  const update = (id: string, changes: Partial<QueueItem<T>>) => {
+    itemsRef.current = itemsRef.current.map(item => (item.id === id ? { ...item, ...changes } : item));
+    setItems(itemsRef.current);
+  };
+
+  const start = (item: QueueItem<T>) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    update(item.id, { status: 'uploading', progress: null, error: undefined });
+
+    uploadRef.current(item, {
+      signal: controller.signal,
+      onProgress: progress => update(item.id, { progress })
+    })
+      .then(result => {
+        update(item.id, { status: 'done', result, progress: null });
+        const done = itemsRef.current.find(i => i.id === item.id);
+        if (done) onItemDoneRef.current?.(done);
+      })
+      .catch(error => {
+        const status: QueueItemStatus = isCancelled(error) ? 'cancelled' : 'failed';
+        update(item.id, { status, error: (error as Error).message, progress: null });
+      })
+      .finally(() => {
+        controllers.current.delete(item.id);
+        pump();
+      });
+  };
+
+  const pump = () => {
+    const active = itemsRef.current.filter(item => item.status === 'uploading').length;
+    const next = itemsRef.current
+      .filter(item => item.status === 'pending')
+      .slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - active));
+    next.forEach(start);
+  };
+
+  // Queue a batch of files; skip returns a reason for files that shouldn't be uploaded (shown, never retried)
+  const add = (sources: FileSource[], settings: T, skip?: (source: FileSource) => string | undefined) => {
+    const added = sources.map((source): QueueItem<T> => {
+      const reason = skip?.(source);
+      return {
+        ...source,
+        id: crypto.randomUUID(),
+        settings,
+        status: reason ? 'skipped' : 'pending',
+        progress: null,
+        error: reason
+      };
+    });
+    itemsRef.current = [...itemsRef.current, ...added];
+    setItems(itemsRef.current);
+    pump();
+  };
+
+  const retry = (id: string) => {
+    update(id, { status: 'pending', error: undefined });
+    pump();
+  };
+
+  const cancel = (id: string) => {
+    const controller = controllers.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      update(id, { status: 'cancelled' });
+    }
+  };
+
+  const cancelAll = () => {
+    itemsRef.current
+      .filter(item => item.status === 'pending' || item.status === 'uploading')
+      .forEach(item => cancel(item.id));
+  };
+
+  const clearFinished = () => {
+    itemsRef.current = itemsRef.current.filter(item => item.status === 'pending' || item.status === 'uploading');
+    setItems(itemsRef.current);
+  };
+
+  // Abort whatever is still running when the uploader goes away
+  const abortAll = useCallback(() => {
+    controllers.current.forEach(controller => controller.abort());
+  }, []);
+  useEffect(() => abortAll, [abortAll]);
+
+  return { items, add, retry, cancel, cancelAll, clearFinished };
+}
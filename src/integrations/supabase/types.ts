@@ -190,6 +190,32 @@ export type Database = {
           },
         ]
       }
+      download_rate_limits: {
+        Row: {
+          claims: number
+          file_id: string
+          window_start: string
+        }
+        Insert: {
+          claims?: number
+          file_id: string
+          window_start?: string
+        }
+        Update: {
+          claims?: number
+          file_id?: string
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "download_rate_limits_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: true
+            referencedRelation: "encrypted_files"
+            referencedColumns: ["file_id"]
+          },
+        ]
+      }
       encrypted_audit_logs: {
         Row: {
           created_at: string
@@ -232,6 +258,13 @@ export type Database = {
           id: string
           max_downloads: number | null
           mime_type: string | null
+          share_auth_hash: string | null
+          share_failed_attempts: number
+          share_kdf_params: string | null
+          share_locked_until: string | null
+          share_wrapped_key: string | null
+          signature: string | null
+          signing_public_key: string | null
           storage_path: string
           updated_at: string
           upload_date: string
@@ -248,6 +281,13 @@ export type Database = {
           id?: string
           max_downloads?: number | null
           mime_type?: string | null
+          share_auth_hash?: string | null
+          share_failed_attempts?: number
+          share_kdf_params?: string | null
+          share_locked_until?: string | null
+          share_wrapped_key?: string | null
+          signature?: string | null
+          signing_public_key?: string | null
           storage_path: string
           updated_at?: string
           upload_date?: string
@@ -264,6 +304,13 @@ export type Database = {
           id?: string
           max_downloads?: number | null
           mime_type?: string | null
+          share_auth_hash?: string | null
+          share_failed_attempts?: number
+          share_kdf_params?: string | null
+          share_locked_until?: string | null
+          share_wrapped_key?: string | null
+          signature?: string | null
+          signing_public_key?: string | null
           storage_path?: string
           updated_at?: string
           upload_date?: string
@@ -271,6 +318,44 @@ export type Database = {
         }
         Relationships: []
       }
+      file_shares: {
+        Row: {
+          created_at: string
+          file_id: string
+          id: string
+          owner_id: string
+          recipient_email: string
+          recipient_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          created_at?: string
+          file_id: string
+          id?: string
+          owner_id: string
+          recipient_email: string
+          recipient_id: string
+          wrapped_key: string
+        }
+        Update: {
+          created_at?: string
+          file_id?: string
+          id?: string
+          owner_id?: string
+          recipient_email?: string
+          recipient_id?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "file_shares_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "encrypted_files"
+            referencedColumns: ["file_id"]
+          },
+        ]
+      }
       payments: {
         Row: {
           amount: number
@@ -321,6 +406,8 @@ export type Database = {
           id: string
           last_name: string | null
           plan: string
+          public_key: string | null
+          signing_public_key: string | null
           updated_at: string
           user_id: string
         }
@@ -334,6 +421,8 @@ export type Database = {
           id?: string
           last_name?: string | null
           plan?: string
+          public_key?: string | null
+          signing_public_key?: string | null
           updated_at?: string
           user_id: string
         }
@@ -347,6 +436,8 @@ export type Database = {
           id?: string
           last_name?: string | null
           plan?: string
+          public_key?: string | null
+          signing_public_key?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -418,6 +509,62 @@ export type Database = {
         }
         Relationships: []
       }
+      share_links: {
+        Row: {
+          auth_hash: string | null
+          claim_hash: string | null
+          created_at: string
+          download_count: number
+          expires_at: string | null
+          failed_attempts: number
+          file_id: string
+          id: string
+          kdf_params: string | null
+          locked_until: string | null
+          max_downloads: number | null
+          owner_id: string
+          wrapped_key: string
+        }
+        Insert: {
+          auth_hash?: string | null
+          claim_hash?: string | null
+          created_at?: string
+          download_count?: number
+          expires_at?: string | null
+          failed_attempts?: number
+          file_id: string
+          id?: string
+          kdf_params?: string | null
+          locked_until?: string | null
+          max_downloads?: number | null
+          owner_id: string
+          wrapped_key: string
+        }
+        Update: {
+          auth_hash?: string | null
+          claim_hash?: string | null
+          created_at?: string
+          download_count?: number
+          expires_at?: string | null
+          failed_attempts?: number
+          file_id?: string
+          id?: string
+          kdf_params?: string | null
+          locked_until?: string | null
+          max_downloads?: number | null
+          owner_id?: string
+          wrapped_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_links_file_id_fkey"
+            columns: ["file_id"]
+            isOneToOne: false
+            referencedRelation: "encrypted_files"
+            referencedColumns: ["file_id"]
+          },
+        ]
+      }
       subscriptions: {
         Row: {
           cancel_at_period_end: boolean
@@ -568,15 +715,83 @@ export type Database = {
         }
         Relationships: []
       }
+      user_vaults: {
+        Row: {
+          created_at: string
+          encrypted_private_key: string | null
+          encrypted_signing_key: string | null
+          id: string
+          key_id: string
+          pending_key_id: string | null
+          pending_wrapped_key: string | null
+          recovery_wrapped_key: string | null
+          updated_at: string
+          user_id: string
+          wrapped_master_key: string
+        }
+        Insert: {
+          created_at?: string
+          encrypted_private_key?: string | null
+          encrypted_signing_key?: string | null
+          id?: string
+          key_id: string
+          pending_key_id?: string | null
+          pending_wrapped_key?: string | null
+          recovery_wrapped_key?: string | null
+          updated_at?: string
+          user_id: string
+          wrapped_master_key: string
+        }
+        Update: {
+          created_at?: string
+          encrypted_private_key?: string | null
+          encrypted_signing_key?: string | null
+          id?: string
+          key_id?: string
+          pending_key_id?: string | null
+          pending_wrapped_key?: string | null
+          recovery_wrapped_key?: string | null
+          updated_at?: string
+          user_id?: string
+          wrapped_master_key?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      claim_download: {
+        Args: {
+          p_file_id: string
+          p_link_id?: string
+          p_link_token?: string
+          p_user_id?: string
+        }
+        Returns: {
+          status: string
+          object_path: string
+          metadata: string
+          downloads: number
+        }[]
+      }
       delete_user_data: {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      finish_purge: {
+        Args: { p_file_ids: string[]; p_reasons: string[] }
+        Returns: number
+      }
+      find_user_by_email: {
+        Args: { p_email: string }
+        Returns: {
+          user_id: string
+          full_name: string
+          public_key: string
+        }[]
+      }
       generate_file_id: {
         Args: Record<PropertyKey, never>
         Returns: string
@@ -585,18 +800,98 @@ export type Database = {
         Args: { task_type: string }
         Returns: number
       }
+      get_file_signer: {
+        Args: { p_file_id: string }
+        Returns: {
+          signature: string
+          full_name: string
+          signing_public_key: string
+          current_signing_key: string
+        }[]
+      }
+      get_files_shared_with_me: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          download_count: number
+          encrypted_metadata: string
+          expires_at: string
+          file_id: string
+          max_downloads: number
+          owner_id: string
+          shared_at: string
+          wrapped_key: string
+        }[]
+      }
       get_public_profile: {
         Args: { profile_user_id: string }
         Returns: {
           id: string
           full_name: string
           avatar_url: string
+          public_key: string
+        }[]
+      }
+      get_shared_file: {
+        Args: { p_file_id: string; p_link_id?: string }
+        Returns: {
+          status: string
+          encrypted_metadata: string
+          padded_size: number
         }[]
       }
+      get_share_kdf_params: {
+        Args: { p_file_id: string }
+        Returns: string
+      }
       get_time_savings_multiplier: {
         Args: { task_type: string }
         Returns: number
       }
+      has_legacy_auth_password: {
+        Args: { p_email: string }
+        Returns: boolean
+      }
+      open_share_link: {
+        Args: { p_link_id: string }
+        Returns: {
+          status: string
+          wrapped_key: string
+          kdf_params: string
+        }[]
+      }
+      purgeable_files: {
+        Args: { p_limit?: number }
+        Returns: {
+          file_id: string
+          user_id: string
+          storage_path: string
+          reason: string
+        }[]
+      }
+      set_public_key: {
+        Args: { p_public_key: string }
+        Returns: undefined
+      }
+      set_signing_key: {
+        Args: { p_signing_key: string }
+        Returns: undefined
+      }
+      unlock_password_share: {
+        Args: { p_file_id: string; p_auth_token: string }
+        Returns: {
+          status: string
+          wrapped_key: string
+          attempts_remaining: number
+        }[]
+      }
+      unlock_share_link: {
+        Args: { p_link_id: string; p_auth_token: string }
+        Returns: {
+          status: string
+          wrapped_key: string
+          attempts_remaining: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,86 @@
+// Account passwords never reach Supabase as typed
+// Auth is given a PBKDF2 hash of the password, salted with a fixed label and the email, so the
+// server can check sign-ins without learning anything that opens the vault: the vault key is
+// wrapped under its own PBKDF2 derivation of the password with a random salt (vault.ts).
+// Accounts created before this still have the typed password set in auth and are moved over
+// on their next sign-in. Moved accounts are flagged in their user metadata, and the typed
+// password is only ever tried for accounts the server says haven't been (has_legacy_auth_password).
+
+import { supabase } from '@/integrations/supabase/client';
+import { arrayBufferToBase64 } from '@/lib/encryption';
+
+export const AUTH_KDF_ITERATIONS = 100000;
+
+const AUTH_SALT_LABEL = 'shard-cipher/auth/v1:';
+// Gives every derived password an upper, lower, digit and symbol, whatever the auth
+// server's character-class rules are
+const AUTH_PASSWORD_PREFIX = 'Sc1!';
+// User metadata flag marking an account whose auth password is the derived one
+export const AUTH_PASSWORD_DERIVED_FLAG = 'auth_password_derived';
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+// The password sent to Supabase auth in place of the one the user typed
+export async function deriveAuthPassword(email: string, password: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const passwordKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: 'PBKDF2',
+      salt: encoder.encode(AUTH_SALT_LABEL + normalizeEmail(email)),
+      iterations: AUTH_KDF_ITERATIONS,
+      hash: 'SHA-256'
+    },
+    passwordKey,
+    256
+  );
+
+  return AUTH_PASSWORD_PREFIX + arrayBufferToBase64(bits);
+}
+
+// Whether the account still has the typed password set in auth; false if that can't be told
+async function hasLegacyAuthPassword(email: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('has_legacy_auth_password', { p_email: email });
+  if (error) {
+    console.error('Could not check for a legacy auth password:', error);
+    return false;
+  }
+  return data === true;
+}
+
+// Sign in with the derived password, moving accounts that still use the typed one over to it
+export async function signInWithAccountPassword(email: string, password: string) {
+  const authPassword = await deriveAuthPassword(email, password);
+  const result = await supabase.auth.signInWithPassword({ email, password: authPassword });
+
+  if (!result.error) {
+    // Accounts moved before the flag existed get it on their next sign-in
+    if (!result.data.user?.user_metadata?.[AUTH_PASSWORD_DERIVED_FLAG]) {
+      const { error: flagError } = await supabase.auth.updateUser({ data: { [AUTH_PASSWORD_DERIVED_FLAG]: true } });
+      if (flagError) console.error('Could not flag account as using a derived auth password:', flagError);
+    }
+    return result;
+  }
+  if (!result.error.message.includes('Invalid login credentials') || !(await hasLegacyAuthPassword(email))) {
+    return result;
+  }
+
+  const legacy = await supabase.auth.signInWithPassword({ email, password });
+  if (legacy.error) return result;
+
+  const { error: updateError } = await supabase.auth.updateUser({
+    password: authPassword,
+    data: { [AUTH_PASSWORD_DERIVED_FLAG]: true }
+  });
+  if (updateError) {
+    console.error('Could not move account to a derived auth password:', updateError);
+  }
+  return legacy;
+}
@@ -0,0 +1,173 @@
+// Self-describing binary header prepended to every ciphertext we store
+// Records how a blob was encrypted so the format can evolve without stranding old files
+//
+// Layout (version 2):
+//   magic "SCPH" (4) | version (1) | header length (2, BE) | cipher id (1) | kdf id (1)
+//   | kdf params length (2, BE) | kdf params | chunk size (4, BE) | nonce length (1) | nonce
+// The full header is bound to the ciphertext as AES-GCM additional data.
+
+export const HEADER_MAGIC = new Uint8Array([0x53, 0x43, 0x50, 0x48]); // "SCPH"
+export const HEADER_VERSION = 2;
+
+// Largest chunk size accepted when reading; a reader buffers a whole chunk before decrypting it
+export const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+
+const FIXED_PREFIX_LENGTH = HEADER_MAGIC.length + 1 + 2;
+
+// Cipher identifiers
+export const CipherId = {
+  AES_256_GCM: 1, // Single AES-GCM message, nonce in header
+  AES_256_GCM_CHUNKED: 2 // Chunked AES-GCM stream, nonce prefix in header
+} as const;
+export type CipherId = typeof CipherId[keyof typeof CipherId];
+
+// Key derivation identifiers (how the content key is obtained from the key material)
+export const KdfId = {
+  NONE: 0, // Raw key, used as-is
+  HKDF_SHA256: 1, // Subkey derived from a master key, params: see encodeHkdfParams
+  PBKDF2_SHA256: 2 // Key stretched from a password, params: see encodePbkdf2Params
+} as const;
+export type KdfId = typeof KdfId[keyof typeof KdfId];
+
+export interface HkdfParams {
+  salt: Uint8Array;
+  info: string; // Purpose label, e.g. "shard-cipher/file/content/v1"
+}
+
+export interface Pbkdf2Params {
+  iterations: number;
+  salt: Uint8Array;
+}
+
+export interface CipherHeader {
+  version: number;
+  cipherId: CipherId;
+  kdfId: KdfId;
+  kdfParams: Uint8Array;
+  chunkSize: number; // 0 for single-message ciphers
+  nonce: Uint8Array; // Full nonce, or nonce prefix for chunked ciphers
+}
+
+// Check whether bytes start with the header magic
+export function hasCipherHeader(bytes: Uint8Array): boolean {
+  if (bytes.length < HEADER_MAGIC.length) return false;
+  return HEADER_MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+// Number of bytes the header occupies, or null if more bytes are needed to tell
+export function cipherHeaderLength(bytes: Uint8Array): number | null {
+  if (bytes.length < FIXED_PREFIX_LENGTH) return null;
+  if (!hasCipherHeader(bytes)) {
+    throw new Error('Missing encryption header');
+  }
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint16(5);
+}
+
+// Serialize a header
+export function encodeCipherHeader(header: Omit<CipherHeader, 'version'>): Uint8Array {
+  const length = FIXED_PREFIX_LENGTH + 1 + 1 + 2 + header.kdfParams.length + 4 + 1 + header.nonce.length;
+  const bytes = new Uint8Array(length);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  bytes.set(HEADER_MAGIC, offset);
+  offset += HEADER_MAGIC.length;
+  bytes[offset++] = HEADER_VERSION;
+  view.setUint16(offset, length);
+  offset += 2;
+  bytes[offset++] = header.cipherId;
+  bytes[offset++] = header.kdfId;
+  view.setUint16(offset, header.kdfParams.length);
+  offset += 2;
+  bytes.set(header.kdfParams, offset);
+  offset += header.kdfParams.length;
+  view.setUint32(offset, header.chunkSize);
+  offset += 4;
+  bytes[offset++] = header.nonce.length;
+  bytes.set(header.nonce, offset);
+
+  return bytes;
+}
+
+// Parse and validate a header; bytes must contain at least cipherHeaderLength() bytes
+export function parseCipherHeader(bytes: Uint8Array): CipherHeader {
+  const length = cipherHeaderLength(bytes);
+  if (length === null || bytes.length < length) {
+    throw new Error('Encryption header is truncated');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = bytes[4];
+
+  if (version !== HEADER_VERSION) {
+    throw new Error(`Unsupported encryption format version: ${version}`);
+  }
+
+  let offset = FIXED_PREFIX_LENGTH;
+  const cipherId = bytes[offset++] as CipherId;
+  const kdfId = bytes[offset++] as KdfId;
+  const kdfParamsLength = view.getUint16(offset);
+  offset += 2;
+  const kdfParams = bytes.slice(offset, offset + kdfParamsLength);
+  offset += kdfParamsLength;
+  const chunkSize = view.getUint32(offset);
+  offset += 4;
+  const nonceLength = bytes[offset++];
+  const nonce = bytes.slice(offset, offset + nonceLength);
+
+  if (offset + nonceLength !== length) {
+    throw new Error('Malformed encryption header');
+  }
+  if (!Object.values(CipherId).includes(cipherId)) {
+    throw new Error(`Unsupported cipher: ${cipherId}`);
+  }
+  if (!Object.values(KdfId).includes(kdfId)) {
+    throw new Error(`Unsupported key derivation: ${kdfId}`);
+  }
+  if ((cipherId === CipherId.AES_256_GCM_CHUNKED && chunkSize === 0) || chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error('Invalid chunk size in encryption header');
+  }
+
+  return { version, cipherId, kdfId, kdfParams, chunkSize, nonce };
+}
+
+// Serialize HKDF parameters: salt length (1) | salt | info (UTF-8, rest)
+export function encodeHkdfParams(params: HkdfParams): Uint8Array {
+  const info = new TextEncoder().encode(params.info);
+  const bytes = new Uint8Array(1 + params.salt.length + info.length);
+  bytes[0] = params.salt.length;
+  bytes.set(params.salt, 1);
+  bytes.set(info, 1 + params.salt.length);
+  return bytes;
+}
+
+// Parse HKDF parameters written by encodeHkdfParams
+export function decodeHkdfParams(bytes: Uint8Array): HkdfParams {
+  const saltLength = bytes[0];
+  if (bytes.length < 1 + saltLength) {
+    throw new Error('Malformed HKDF parameters');
+  }
+  return {
+    salt: bytes.slice(1, 1 + saltLength),
+    info: new TextDecoder().decode(bytes.slice(1 + saltLength))
+  };
+}
+
+// Serialize PBKDF2 parameters: iterations (4, BE) | salt (rest)
+export function encodePbkdf2Params(params: Pbkdf2Params): Uint8Array {
+  const bytes = new Uint8Array(4 + params.salt.length);
+  new DataView(bytes.buffer).setUint32(0, params.iterations);
+  bytes.set(params.salt, 4);
+  return bytes;
+}
+
+// Parse PBKDF2 parameters written by encodePbkdf2Params
+export function decodePbkdf2Params(bytes: Uint8Array): Pbkdf2Params {
+  if (bytes.length < 4) {
+    throw new Error('Malformed PBKDF2 parameters');
+  }
+  return {
+    iterations: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(0),
+    salt: bytes.slice(4)
+  };
+}
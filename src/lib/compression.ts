@@ -0,0 +1,79 @@
+// Optional compression of file content before encryption
+// Compression happens before padding, so the server sees the padded size of the compressed
+// content - which says a little about how compressible the file is. It is therefore opt-in
+// per upload. The codec and compressed size are recorded in the encrypted metadata.
+
+import { collectStream } from '@/lib/streamCipher';
+
+export type CompressionCodec = 'gzip' | 'deflate';
+
+// Codec used for new uploads
+export const DEFAULT_CODEC: CompressionCodec = 'gzip';
+
+// Files below this size aren't worth the codec overhead
+const MIN_COMPRESSIBLE_SIZE = 1024;
+
+// Formats that are already compressed and would not shrink further
+const COMPRESSED_TYPE_PATTERNS = [
+  /^image\/(?!svg|bmp|x-ms-bmp|tiff)/,
+  /^video\//,
+  /^audio\/(?!wav|x-wav|aiff)/,
+  /zip|gzip|compressed|x-7z|x-rar|x-bzip|x-xz|zstd|brotli/,
+  /^application\/(pdf|epub\+zip|java-archive|vnd\.android\.package-archive)$/,
+  /^application\/vnd\.openxmlformats-officedocument\./,
+  /^application\/vnd\.oasis\.opendocument\./,
+  /^font\/woff2?$/
+];
+
+const COMPRESSED_EXTENSIONS = new Set([
+  'zip', 'gz', 'tgz', 'bz2', 'xz', 'zst', '7z', 'rar', 'br',
+  'jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'heic',
+  'mp4', 'mkv', 'mov', 'webm', 'avi', 'mp3', 'aac', 'ogg', 'opus', 'flac', 'm4a',
+  'pdf', 'docx', 'xlsx', 'pptx', 'odt', 'ods', 'epub', 'jar', 'apk', 'woff', 'woff2'
+]);
+
+// Whether a file is worth compressing, judging by its size, MIME type and extension
+export function isCompressible(type: string, name: string, size: number): boolean {
+  if (size < MIN_COMPRESSIBLE_SIZE) return false;
+  if (type && COMPRESSED_TYPE_PATTERNS.some(pattern => pattern.test(type.toLowerCase()))) return false;
+
+  const extension = name.includes('.') ? name.split('.').pop()?.toLowerCase() : undefined;
+  return !extension || !COMPRESSED_EXTENSIONS.has(extension);
+}
+
+// Pass-through stream counting the bytes that go through it
+function createCountingStream(onProgress: (done: number) => void): TransformStream<Uint8Array, Uint8Array> {
+  let done = 0;
+  return new TransformStream({
+    transform(chunk, controller) {
+      done += chunk.byteLength;
+      onProgress(done);
+      controller.enqueue(chunk);
+    }
+  });
+}
+
+// Compress a blob; progress counts input bytes
+export async function compressBlob(
+  source: Blob,
+  codec: CompressionCodec,
+  onProgress?: (done: number) => void
+): Promise<Blob> {
+  let stream: ReadableStream<Uint8Array> = source.stream();
+  if (onProgress) stream = stream.pipeThrough(createCountingStream(onProgress));
+  return await collectStream(stream.pipeThrough(new CompressionStream(codec)));
+}
+
+// Decompress a blob compressed with compressBlob
+export async function decompressBlob(source: Blob, codec: CompressionCodec): Promise<Blob> {
+  try {
+    return await collectStream(source.stream().pipeThrough(new DecompressionStream(codec)));
+  } catch (error) {
+    throw new Error(`Could not decompress file content: ${(error as Error).message}`);
+  }
+}
+
+// Decompress a stream of content compressed with compressBlob
+export function createDecompressStream(codec: CompressionCodec): TransformStream<Uint8Array, Uint8Array> {
+  return new DecompressionStream(codec);
+}
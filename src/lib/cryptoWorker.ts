@@ -0,0 +1,99 @@
+// File encryption and decryption in a Web Worker, so large files don't freeze the page
+// Each call gets its own worker (see workers/crypto.worker.ts) that streams progress back;
+// aborting the signal terminates the worker mid-operation.
+
+import type { CryptoProgress, FileEncryptionResult, FileMetadata } from '@/lib/encryption';
+
+export type CryptoWorkerRequest =
+  | { op: 'encryptBlob'; source: Blob; metadata: FileMetadata; key?: string; compress: boolean }
+  | { op: 'decrypt'; encryptedFile: Blob; encryptedMetadata: string; key: string; iv?: string };
+
+export type CryptoWorkerResponse =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'result'; result: unknown }
+  | { type: 'error'; message: string };
+
+export interface CryptoTaskOptions {
+  onProgress?: CryptoProgress;
+  signal?: AbortSignal;
+}
+
+export interface DecryptedFile {
+  file: Blob;
+  metadata: FileMetadata;
+  ciphertextSha256: Uint8Array;
+}
+
+// Error raised when an operation is cancelled through its AbortSignal
+export function cancelledError(): DOMException {
+  return new DOMException('Cancelled', 'AbortError');
+}
+
+// Whether an error came from a cancelled operation
+export function isCancelled(error: unknown): boolean {
+  return (error as Error)?.name === 'AbortError';
+}
+
+// Run one request in a fresh worker, resolving with its result
+function runCryptoTask<T>(request: CryptoWorkerRequest, options: CryptoTaskOptions = {}): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/crypto.worker.ts', import.meta.url), { type: 'module' });
+    const onAbort = () => {
+      finish();
+      reject(cancelledError());
+    };
+    const finish = () => {
+      worker.terminate();
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+    options.signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<CryptoWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        options.onProgress?.(message.done, message.total);
+        return;
+      }
+
+      finish();
+      if (message.type === 'result') {
+        resolve(message.result as T);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Encryption worker failed'));
+    };
+
+    worker.postMessage(request);
+  });
+}
+
+// Encrypt content and metadata under a given or new master file key (see encryptBlob)
+export function encryptBlobInWorker(
+  source: Blob,
+  metadata: FileMetadata,
+  key?: string,
+  compress = false,
+  options?: CryptoTaskOptions
+): Promise<FileEncryptionResult> {
+  return runCryptoTask({ op: 'encryptBlob', source, metadata, key, compress }, options);
+}
+
+// Decrypt a file and its metadata (see decryptFile)
+export function decryptFileInWorker(
+  encryptedFile: Blob,
+  encryptedMetadata: string,
+  key: string,
+  iv?: string,
+  options?: CryptoTaskOptions
+): Promise<DecryptedFile> {
+  return runCryptoTask({ op: 'decrypt', encryptedFile, encryptedMetadata, key, iv }, options);
+}
@@ -0,0 +1,178 @@
+// Sharing files directly with other accounts
+// The file key is wrapped to the recipient's public key (see identity.ts) and stored in
+// file_shares, so the file shows up in the recipient's dashboard without sending a link.
+
+import { supabase } from '@/integrations/supabase/client';
+import { decryptFileMetadata } from '@/lib/encryption';
+import { SecureDataManager } from '@/lib/secureDataManager';
+import { wrapKeyForRecipient, unwrapKeyForUser, keyFingerprint } from '@/lib/identity';
+import type { EncryptedFileMetadata } from '@/lib/fileManager';
+
+// An account found by email, with the public key its file keys will be wrapped to
+export interface ShareRecipient {
+  userId: string;
+  email: string;
+  name: string | null;
+  publicKey: string;
+  fingerprint: string; // Shown to the sender, so a key swapped by the server can be noticed
+}
+
+export interface FileRecipient {
+  recipientId: string;
+  email: string;
+  sharedAt: string;
+}
+
+export interface SharedFile {
+  fileId: string;
+  ownerName: string;
+  originalName: string;
+  size: number;
+  type: string;
+  sharedAt: string;
+  expiresAt?: string;
+  maxDownloads?: number;
+  downloadCount: number;
+  key: string;
+}
+
+// Look up a registered account to share with, by email
+export async function findShareRecipient(email: string): Promise<ShareRecipient> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) throw new Error('User not authenticated');
+
+  const { data: recipients, error: lookupError } = await supabase
+    .rpc('find_user_by_email', { p_email: email });
+
+  if (lookupError) throw lookupError;
+  const recipient = recipients?.[0];
+  if (!recipient) {
+    throw new Error('No account with that email can receive files yet');
+  }
+  if (recipient.user_id === user.id) {
+    throw new Error('You cannot share a file with yourself');
+  }
+
+  return {
+    userId: recipient.user_id,
+    email: email.trim().toLowerCase(),
+    name: recipient.full_name,
+    publicKey: recipient.public_key,
+    fingerprint: await keyFingerprint(recipient.public_key)
+  };
+}
+
+// Share a file the user owns with an account found by findShareRecipient
+// Sharing again with the same account re-wraps the key, e.g. after they reset their vault
+export async function shareFileWithUser(file: EncryptedFileMetadata, recipient: ShareRecipient): Promise<void> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) throw new Error('User not authenticated');
+
+  if (file.iv) {
+    throw new Error('Files in the legacy format cannot be shared with accounts');
+  }
+
+  const { error } = await supabase
+    .from('file_shares')
+    .upsert({
+      file_id: file.fileId,
+      owner_id: user.id,
+      recipient_id: recipient.userId,
+      recipient_email: recipient.email,
+      wrapped_key: await wrapKeyForRecipient(file.key, recipient.publicKey)
+    }, {
+      onConflict: 'file_id,recipient_id'
+    });
+
+  if (error) throw error;
+
+  await SecureDataManager.storeEncryptedAuditLog(user.id, {
+    action: 'share_user',
+    timestamp: new Date().toISOString(),
+    data: { fileId: file.fileId, recipientId: recipient.userId, fingerprint: recipient.fingerprint }
+  });
+}
+
+// Accounts a file the user owns is shared with
+export async function getFileRecipients(fileId: string): Promise<FileRecipient[]> {
+  const { data, error } = await supabase
+    .from('file_shares')
+    .select('recipient_id, recipient_email, created_at')
+    .eq('file_id', fileId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).map(share => ({
+    recipientId: share.recipient_id,
+    email: share.recipient_email,
+    sharedAt: share.created_at
+  }));
+}
+
+// Stop sharing a file with an account
+// A recipient who already downloaded the file keeps their copy
+export async function revokeFileShare(fileId: string, recipientId: string): Promise<void> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) throw new Error('User not authenticated');
+
+  const { error } = await supabase
+    .from('file_shares')
+    .delete()
+    .eq('file_id', fileId)
+    .eq('recipient_id', recipientId);
+
+  if (error) throw error;
+
+  await SecureDataManager.storeEncryptedAuditLog(user.id, {
+    action: 'share_user_revoked',
+    timestamp: new Date().toISOString(),
+    data: { fileId, recipientId }
+  });
+}
+
+// Files other accounts shared with the user, with their keys unwrapped and metadata decrypted
+// Shares that can't be opened (e.g. wrapped to a key lost in a vault reset) are skipped
+export async function getFilesSharedWithMe(): Promise<SharedFile[]> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase.rpc('get_files_shared_with_me');
+
+  if (error) throw error;
+
+  const ownerNames = new Map<string, string>();
+  const sharedFiles: SharedFile[] = [];
+
+  for (const share of data || []) {
+    try {
+      const key = await unwrapKeyForUser(share.wrapped_key, user.id);
+      const metadata = await decryptFileMetadata(share.encrypted_metadata, key);
+
+      let ownerName = ownerNames.get(share.owner_id);
+      if (!ownerName) {
+        const { data: profile } = await supabase
+          .rpc('get_public_profile', { profile_user_id: share.owner_id });
+        ownerName = profile?.[0]?.full_name || 'Another user';
+        ownerNames.set(share.owner_id, ownerName);
+      }
+
+      sharedFiles.push({
+        fileId: share.file_id,
+        ownerName,
+        originalName: metadata.originalName,
+        size: metadata.size,
+        type: metadata.type,
+        sharedAt: share.shared_at,
+        expiresAt: share.expires_at || undefined,
+        maxDownloads: share.max_downloads || undefined,
+        downloadCount: share.download_count,
+        key
+      });
+    } catch (error) {
+      console.error('Could not open shared file:', share.file_id, error);
+    }
+  }
+
+  return sharedFiles;
+}
@@ -0,0 +1,67 @@
+// Turning file inputs and drag-and-drop payloads into a flat list of files
+// Folders are walked recursively; each file keeps its path relative to what the user picked.
+
+export interface FileSource {
+  file: File;
+  relativePath: string; // e.g. "photos/2024/beach.jpg", or just the name for loose files
+}
+
+// OS clutter that is never worth uploading
+const IGNORED_NAMES = new Set(['.DS_Store', 'Thumbs.db', 'desktop.ini']);
+
+const isIgnored = (name: string) => IGNORED_NAMES.has(name);
+
+// Files from an <input type="file">, including webkitdirectory folder picks
+export function filesFromInput(files: FileList | null): FileSource[] {
+  return Array.from(files ?? [])
+    .filter(file => !isIgnored(file.name))
+    .map(file => ({ file, relativePath: file.webkitRelativePath || file.name }));
+}
+
+function readFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+// A directory reader returns entries in batches until it returns an empty one
+async function readDirectory(entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+async function walkEntry(entry: FileSystemEntry, sources: FileSource[]): Promise<void> {
+  if (isIgnored(entry.name)) return;
+
+  if (entry.isFile) {
+    const file = await readFile(entry as FileSystemFileEntry);
+    sources.push({ file, relativePath: entry.fullPath.replace(/^\//, '') || file.name });
+  } else if (entry.isDirectory) {
+    for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) {
+      await walkEntry(child, sources);
+    }
+  }
+}
+
+// Files from a drop, walking any dropped folders
+// The DataTransfer is only readable during the drop event, so entries are taken synchronously
+// before anything is awaited.
+export async function filesFromDataTransfer(dataTransfer: DataTransfer): Promise<FileSource[]> {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry());
+
+  // Browsers without entry support still give plain files
+  if (entries.length === 0 || entries.some(entry => entry === null)) {
+    return filesFromInput(dataTransfer.files);
+  }
+
+  const sources: FileSource[] = [];
+  for (const entry of entries) {
+    if (entry) await walkEntry(entry, sources);
+  }
+  return sources;
+}
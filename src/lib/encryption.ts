@@ -1,6 +1,30 @@
 // Client-side encryption utilities using Web Crypto API
 // All encryption/decryption happens in the browser - zero-trust architecture
 
+import { createEncryptStream, createDecryptStream, collectStream } from '@/lib/streamCipher';
+import { Sha256, hashBlob, createHashStream, toHex } from '@/lib/sha256';
+import { padBlob, padJson, createUnpadStream } from '@/lib/padding';
+import {
+  DEFAULT_CODEC,
+  isCompressible,
+  compressBlob,
+  decompressBlob,
+  createDecompressStream,
+  type CompressionCodec
+} from '@/lib/compression';
+import {
+  CipherId,
+  KdfId,
+  HEADER_MAGIC,
+  encodeCipherHeader,
+  parseCipherHeader,
+  cipherHeaderLength,
+  hasCipherHeader,
+  encodeHkdfParams,
+  decodeHkdfParams,
+  type CipherHeader
+} from '@/lib/cipherHeader';
+
 export interface EncryptionResult {
   encryptedData: ArrayBuffer;
   key: CryptoKey;
@@ -14,12 +38,18 @@ export interface DecryptionParams {
 }
 
 export interface FileEncryptionResult {
-  encryptedFile: ArrayBuffer;
+  encryptedFile: Blob; // Chunked container, see streamCipher.ts
   encryptedMetadata: string;
   key: string; // Base64 encoded key for URL fragment
-  iv: string; // Base64 encoded IV
+  iv?: string; // Base64 encoded IV, only for legacy headerless uploads
+  sha256: string; // Hex SHA-256 of the plaintext, as recorded in the metadata
+  paddedSize: number; // Plaintext size after padding - the only size the server should see
+  ciphertextSha256: Uint8Array; // SHA-256 of encryptedFile, for signing the upload
 }
 
+// Reports bytes processed so far out of the total for a whole encrypt or decrypt operation
+export type CryptoProgress = (done: number, total: number) => void;
+
 // Generate a random AES-GCM key for file encryption
 export async function generateFileKey(): Promise<CryptoKey> {
   return await crypto.subtle.generateKey(
@@ -33,7 +63,11 @@ export async function generateFileKey(): Promise<CryptoKey> {
 }
 
 // Generate a password-derived key using PBKDF2
-export async function deriveKeyFromPassword(password: string, salt: Uint8Array): Promise<CryptoKey> {
+export async function deriveKeyFromPassword(
+  password: string,
+  salt: Uint8Array,
+  iterations: number = 100000
+): Promise<CryptoKey> {
   const encoder = new TextEncoder();
   const passwordKey = await crypto.subtle.importKey(
     'raw',
@@ -47,7 +81,7 @@ export async function deriveKeyFromPassword(password: string, salt: Uint8Array):
     {
       name: 'PBKDF2',
       salt: salt,
-      iterations: 100000,
+      iterations: iterations,
       hash: 'SHA-256'
     },
     passwordKey,
@@ -101,105 +135,349 @@ export async function decryptData(params: DecryptionParams): Promise<ArrayBuffer
   );
 }
 
-// Encrypt a file and its metadata
-export async function encryptFile(file: File): Promise<FileEncryptionResult> {
-  const key = await generateFileKey();
-  const iv = generateIV();
-  
-  // Read file as ArrayBuffer
-  const fileBuffer = await file.arrayBuffer();
-  
-  // Encrypt file content
-  const encryptedFile = await crypto.subtle.encrypt(
+// Purposes a master file key is split into; each gets its own HKDF subkey and nonce
+export type FileKeyPurpose = 'content' | 'metadata' | 'thumbnail';
+
+// Plaintext metadata stored encrypted alongside each file
+export interface FileMetadata {
+  originalName: string;
+  size: number;
+  type: string;
+  lastModified: number;
+  encryptedAt: number;
+  sha256?: string; // Hex SHA-256 of the plaintext; absent on uploads from before checksums
+  compression?: CompressionCodec; // Set when the content was compressed before encryption
+  compressedSize?: number; // Content size after compression, before padding
+  kind?: 'note'; // Set for secret notes, see secretNotes.ts
+  relativePath?: string; // Path within an uploaded folder, e.g. "docs/q3/report.pdf"
+  signingKey?: string; // Uploader's signing public key (base64, raw), set when the upload gets signed
+}
+
+// An encryption key together with the header settings that record how it was derived
+export interface DerivedKey {
+  key: CryptoKey;
+  kdfId: KdfId;
+  kdfParams: Uint8Array;
+}
+
+// HKDF info label for a file subkey purpose
+function fileSubkeyInfo(purpose: FileKeyPurpose): string {
+  return `shard-cipher/file/${purpose}/v1`;
+}
+
+// Generate a random master file key (raw bytes, only ever used as HKDF input)
+export function generateMasterFileKey(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(32));
+}
+
+// Derive an AES-GCM subkey from a master key with HKDF-SHA256
+export async function deriveSubkey(masterKey: BufferSource, salt: Uint8Array, info: string): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey('raw', masterKey, 'HKDF', false, ['deriveKey']);
+
+  return await crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: salt,
+      info: new TextEncoder().encode(info)
+    },
+    baseKey,
     {
       name: 'AES-GCM',
-      iv: iv
+      length: 256
     },
-    key,
-    fileBuffer
+    false,
+    ['encrypt', 'decrypt']
   );
+}
 
-  // Prepare metadata
-  const metadata = {
-    originalName: file.name,
-    size: file.size,
-    type: file.type,
-    lastModified: file.lastModified,
-    encryptedAt: Date.now()
+// Derive a fresh subkey of a master file key for one purpose
+export async function deriveFileSubkey(masterKey: BufferSource, purpose: FileKeyPurpose): Promise<DerivedKey> {
+  const params = { salt: generateSalt(), info: fileSubkeyInfo(purpose) };
+  return {
+    key: await deriveSubkey(masterKey, params.salt, params.info),
+    kdfId: KdfId.HKDF_SHA256,
+    kdfParams: encodeHkdfParams(params)
   };
+}
 
-  // Encrypt metadata
-  const metadataString = JSON.stringify(metadata);
-  const metadataBuffer = new TextEncoder().encode(metadataString);
-  const encryptedMetadataBuffer = await crypto.subtle.encrypt(
+// Resolve the key a file ciphertext was encrypted under from its header's KDF settings
+async function resolveFileKey(header: CipherHeader, masterKey: ArrayBuffer, purpose: FileKeyPurpose): Promise<CryptoKey> {
+  switch (header.kdfId) {
+    case KdfId.NONE:
+      // Uploads from before per-purpose subkeys used the master key directly
+      return await crypto.subtle.importKey('raw', masterKey, 'AES-GCM', false, ['decrypt']);
+    case KdfId.HKDF_SHA256: {
+      const params = decodeHkdfParams(header.kdfParams);
+      if (params.info !== fileSubkeyInfo(purpose)) {
+        throw new Error(`Expected a ${purpose} key but found "${params.info}"`);
+      }
+      return await deriveSubkey(masterKey, params.salt, params.info);
+    }
+    default:
+      throw new Error(`Unsupported key derivation: ${header.kdfId}`);
+  }
+}
+
+// Encrypt a small payload as a single AES-GCM message with its own header and nonce
+export async function encryptMessage(
+  data: ArrayBuffer | Uint8Array,
+  key: CryptoKey,
+  options: { kdfId?: KdfId; kdfParams?: Uint8Array } = {}
+): Promise<Uint8Array> {
+  const nonce = generateIV();
+  const header = encodeCipherHeader({
+    cipherId: CipherId.AES_256_GCM,
+    kdfId: options.kdfId ?? KdfId.NONE,
+    kdfParams: options.kdfParams ?? new Uint8Array(0),
+    chunkSize: 0,
+    nonce
+  });
+
+  const ciphertext = await crypto.subtle.encrypt(
     {
       name: 'AES-GCM',
-      iv: iv
+      iv: nonce,
+      additionalData: header
     },
     key,
-    metadataBuffer
+    data
   );
 
-  // Export key and IV as base64 for URL fragment
-  const exportedKey = await crypto.subtle.exportKey('raw', key);
-  const keyBase64 = arrayBufferToBase64(exportedKey);
-  const ivBase64 = arrayBufferToBase64(iv);
+  const combined = new Uint8Array(header.length + ciphertext.byteLength);
+  combined.set(header, 0);
+  combined.set(new Uint8Array(ciphertext), header.length);
+  return combined;
+}
 
+// Decrypt a payload produced by encryptMessage, dispatching on its header
+export async function decryptMessage(
+  data: Uint8Array,
+  resolveKey: CryptoKey | ((header: CipherHeader) => Promise<CryptoKey>)
+): Promise<ArrayBuffer> {
+  const headerBytes = data.slice(0, cipherHeaderLength(data) ?? data.length);
+  const header = parseCipherHeader(headerBytes);
+  if (header.cipherId !== CipherId.AES_256_GCM) {
+    throw new Error(`Unsupported cipher for message: ${header.cipherId}`);
+  }
+
+  const key = typeof resolveKey === 'function' ? await resolveKey(header) : resolveKey;
+  return await crypto.subtle.decrypt(
+    {
+      name: 'AES-GCM',
+      iv: header.nonce,
+      additionalData: headerBytes
+    },
+    key,
+    data.slice(headerBytes.length)
+  );
+}
+
+// Encrypt file content and metadata under a master file key (a new one unless given)
+// Content and metadata each use their own HKDF subkey and nonce, and both are length-padded
+// first (see padding.ts). The plaintext checksum is computed unless the metadata has one.
+// With compress set, compressible content is compressed before padding (see compression.ts)
+// and kept that way only if it actually shrinks.
+export async function encryptBlob(
+  source: Blob,
+  metadata: FileMetadata,
+  masterKeyBase64?: string,
+  onProgress?: CryptoProgress,
+  compress = false
+): Promise<FileEncryptionResult> {
+  const masterKey = masterKeyBase64
+    ? new Uint8Array(base64ToArrayBuffer(masterKeyBase64))
+    : generateMasterFileKey();
+
+  const hashedBytes = metadata.sha256 ? 0 : source.size;
+  const codec = compress && isCompressible(metadata.type, metadata.originalName, source.size) ? DEFAULT_CODEC : undefined;
+  const compressedBytes = codec ? source.size : 0;
+  let total = hashedBytes + compressedBytes + source.size;
+  const sha256 = metadata.sha256 ?? toHex(await hashBlob(source, done => onProgress?.(done, total)));
+
+  let content = source;
+  const { compression: _compression, compressedSize: _compressedSize, ...plainMetadata } = metadata;
+  let contentMetadata: FileMetadata = plainMetadata;
+  if (codec) {
+    const compressed = await compressBlob(source, codec, done => onProgress?.(hashedBytes + done, total));
+    if (compressed.size < source.size) {
+      content = compressed;
+      contentMetadata = { ...plainMetadata, compression: codec, compressedSize: compressed.size };
+    }
+  }
+
+  const padded = padBlob(content);
+  total = hashedBytes + compressedBytes + padded.size;
+
+  // Encrypt file content chunk by chunk so the whole file is never read into memory,
+  // hashing the ciphertext on the way for the upload signature
+  const contentKey = await deriveFileSubkey(masterKey, 'content');
+  const ciphertextHash = new Sha256();
+  const encryptStream = createEncryptStream(padded, contentKey.key, {
+    kdfId: contentKey.kdfId,
+    kdfParams: contentKey.kdfParams,
+    onProgress: done => onProgress?.(hashedBytes + done, total)
+  });
+  const encryptedFile = await collectStream(encryptStream.pipeThrough(createHashStream(ciphertextHash)));
+
+  // Encrypt metadata as its own message under its own subkey
+  const metadataKey = await deriveFileSubkey(masterKey, 'metadata');
+  const metadataString = JSON.stringify({ ...contentMetadata, sha256 });
+  const metadataBuffer = padJson(new TextEncoder().encode(metadataString));
+  const encryptedMetadataBuffer = await encryptMessage(metadataBuffer, metadataKey.key, metadataKey);
+
+  // Master key goes in the URL fragment - nonces and salts live in the ciphertext headers
   return {
     encryptedFile,
     encryptedMetadata: arrayBufferToBase64(encryptedMetadataBuffer),
-    key: keyBase64,
-    iv: ivBase64
+    key: arrayBufferToBase64(masterKey),
+    sha256,
+    paddedSize: padded.size,
+    ciphertextSha256: ciphertextHash.digest()
   };
 }
 
+// Encrypt a file and its metadata, optionally compressing it first
+export async function encryptFile(file: File, onProgress?: CryptoProgress, compress = false): Promise<FileEncryptionResult> {
+  return await encryptBlob(file, {
+    originalName: file.name,
+    size: file.size,
+    type: file.type,
+    lastModified: file.lastModified,
+    encryptedAt: Date.now()
+  }, undefined, onProgress, compress);
+}
+
+// Single-shot AES-GCM decryption for files uploaded before the cipher header existed
+function legacyDecryptor(masterKey: ArrayBuffer, ivBase64?: string): (data: ArrayBuffer) => Promise<ArrayBuffer> {
+  const iv = ivBase64 ? new Uint8Array(base64ToArrayBuffer(ivBase64)) : null;
+
+  return async (data) => {
+    if (!iv) {
+      throw new Error('This file uses a legacy format and its link is missing the IV');
+    }
+    const key = await crypto.subtle.importKey('raw', masterKey, 'AES-GCM', false, ['decrypt']);
+    return await crypto.subtle.decrypt({ name: 'AES-GCM', iv: iv }, key, data);
+  };
+}
+
+// Decrypt only a file's metadata (name, type, size), without downloading its content
+export async function decryptFileMetadata(
+  encryptedMetadata: string,
+  keyBase64: string,
+  ivBase64?: string
+): Promise<FileMetadata> {
+  const masterKey = base64ToArrayBuffer(keyBase64);
+  const encryptedMetadataBytes = new Uint8Array(base64ToArrayBuffer(encryptedMetadata));
+  const decryptedMetadataBuffer = hasCipherHeader(encryptedMetadataBytes)
+    ? await decryptMessage(encryptedMetadataBytes, (header) => resolveFileKey(header, masterKey, 'metadata'))
+    : await legacyDecryptor(masterKey, ivBase64)(encryptedMetadataBytes.buffer);
+
+  const metadataString = new TextDecoder().decode(decryptedMetadataBuffer);
+  return JSON.parse(metadataString);
+}
+
 // Decrypt a file and metadata
+// Blobs are dispatched on their cipher header; headerless blobs are legacy uploads
+// encrypted in one AES-GCM call with the IV carried in the link. Length padding is cut off,
+// compressed content is decompressed, and the plaintext is checked against the checksum in
+// its metadata, when it has one.
+// The ciphertext is hashed on the way, for checking the upload signature.
 export async function decryptFile(
-  encryptedFile: ArrayBuffer,
+  encryptedFile: Blob,
   encryptedMetadata: string,
   keyBase64: string,
-  ivBase64: string
-): Promise<{ file: Blob; metadata: any }> {
-  // Import key and IV from base64
-  const keyBuffer = base64ToArrayBuffer(keyBase64);
-  const iv = new Uint8Array(base64ToArrayBuffer(ivBase64));
-  
-  const key = await crypto.subtle.importKey(
-    'raw',
-    keyBuffer,
-    'AES-GCM',
-    false,
-    ['decrypt']
-  );
+  ivBase64?: string,
+  onProgress?: CryptoProgress
+): Promise<{ file: Blob; metadata: FileMetadata; ciphertextSha256: Uint8Array }> {
+  // Import master key and (legacy) IV from base64
+  const masterKey = base64ToArrayBuffer(keyBase64);
+  const legacyDecrypt = legacyDecryptor(masterKey, ivBase64);
+
+  const metadata = await decryptFileMetadata(encryptedMetadata, keyBase64, ivBase64);
+  const total = encryptedFile.size + (metadata.sha256 ? metadata.size : 0);
+  const ciphertextHash = new Sha256();
 
   // Decrypt file content
-  const decryptedFile = await crypto.subtle.decrypt(
-    {
-      name: 'AES-GCM',
-      iv: iv
-    },
-    key,
-    encryptedFile
-  );
+  const magic = new Uint8Array(await encryptedFile.slice(0, HEADER_MAGIC.length).arrayBuffer());
+  let decryptedFile: Blob;
+  if (hasCipherHeader(magic)) {
+    const decryptStream = createDecryptStream((header) => resolveFileKey(header, masterKey, 'content'));
+    decryptedFile = await collectStream(
+      encryptedFile.stream()
+        .pipeThrough(createHashStream(ciphertextHash, done => onProgress?.(done, total)))
+        .pipeThrough(decryptStream)
+    );
+  } else {
+    const ciphertext = await encryptedFile.arrayBuffer();
+    ciphertextHash.update(new Uint8Array(ciphertext));
+    decryptedFile = new Blob([await legacyDecrypt(ciphertext)]);
+    onProgress?.(encryptedFile.size, total);
+  }
 
-  // Decrypt metadata
-  const encryptedMetadataBuffer = base64ToArrayBuffer(encryptedMetadata);
-  const decryptedMetadataBuffer = await crypto.subtle.decrypt(
-    {
-      name: 'AES-GCM',
-      iv: iv
-    },
-    key,
-    encryptedMetadataBuffer
-  );
+  const contentSize = metadata.compressedSize ?? metadata.size;
+  if (decryptedFile.size > contentSize) {
+    decryptedFile = decryptedFile.slice(0, contentSize);
+  }
 
-  const metadataString = new TextDecoder().decode(decryptedMetadataBuffer);
-  const metadata = JSON.parse(metadataString);
+  if (metadata.compression) {
+    decryptedFile = await decompressBlob(decryptedFile, metadata.compression);
+  }
+
+  if (metadata.sha256) {
+    const checksum = toHex(await hashBlob(decryptedFile, done => onProgress?.(encryptedFile.size + done, total)));
+    if (checksum !== metadata.sha256) {
+      throw new Error('Decrypted file does not match its SHA-256 checksum');
+    }
+  }
 
   // Create blob with original MIME type
   const blob = new Blob([decryptedFile], { type: metadata.type });
 
-  return { file: blob, metadata };
+  return { file: blob, metadata, ciphertextSha256: ciphertextHash.digest() };
+}
+
+// Pass-through stream that checks the bytes against a hex SHA-256 once all of them have gone through
+function createChecksumStream(expected: string): TransformStream<Uint8Array, Uint8Array> {
+  const hash = new Sha256();
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(bytes, controller) {
+      hash.update(bytes);
+      controller.enqueue(bytes);
+    },
+    flush() {
+      if (toHex(hash.digest()) !== expected) {
+        throw new Error('Decrypted file does not match its SHA-256 checksum');
+      }
+    }
+  });
+}
+
+// Streaming counterpart of decryptFile, for content saved to disk as it downloads
+// Ciphertext goes in and plaintext comes out, with padding cut off and compressed content
+// decompressed on the way; the ciphertext is hashed into ciphertextHash for the signature check.
+// The checksum can only be compared at the end, so a mismatch errors the stream's last read -
+// whoever is writing the plaintext out must discard it then. Only the chunked format streams;
+// legacy headerless uploads go through decryptFile.
+export function createFileDecryptStream(
+  metadata: FileMetadata,
+  keyBase64: string,
+  ciphertextHash: Sha256
+): ReadableWritablePair<Uint8Array, Uint8Array> {
+  const masterKey = base64ToArrayBuffer(keyBase64);
+  const hashStream = createHashStream(ciphertextHash);
+
+  let plaintext = hashStream.readable
+    .pipeThrough(createDecryptStream((header) => resolveFileKey(header, masterKey, 'content')))
+    .pipeThrough(createUnpadStream(metadata.compressedSize ?? metadata.size));
+  if (metadata.compression) {
+    plaintext = plaintext.pipeThrough(createDecompressStream(metadata.compression));
+  }
+  if (metadata.sha256) {
+    plaintext = plaintext.pipeThrough(createChecksumStream(metadata.sha256));
+  }
+
+  return { writable: hashStream.writable, readable: plaintext };
 }
 
 // Encrypt user's file list with password-derived key
@@ -285,22 +563,46 @@ export function base64ToArrayBuffer(base64: string): ArrayBuffer {
   return bytes.buffer;
 }
 
-// Generate download URL with encryption key in fragment
-export function generateDownloadUrl(fileId: string, key: string, iv: string): string {
+// Generate download URL with encryption key in fragment (IV only for legacy uploads)
+export function generateDownloadUrl(fileId: string, key: string, iv?: string): string {
   const baseUrl = window.location.origin;
-  return `${baseUrl}/f/${fileId}#key=${encodeURIComponent(key)}&iv=${encodeURIComponent(iv)}`;
+  const ivParam = iv ? `&iv=${encodeURIComponent(iv)}` : '';
+  return `${baseUrl}/f/${fileId}#key=${encodeURIComponent(key)}${ivParam}`;
+}
+
+// Generate a secret note URL, viewed in the browser instead of downloaded (see secretNotes.ts)
+export function generateNoteUrl(fileId: string, key: string): string {
+  return `${window.location.origin}/s/${fileId}#key=${encodeURIComponent(key)}`;
 }
 
 // Parse encryption parameters from URL fragment
-export function parseUrlFragment(): { key?: string; iv?: string } {
+// Password links carry a link secret (pw) instead of the key, see sharePassword.ts
+// Key share links carry one share of the key (share), see keyShares.ts
+// Share links carry a link ID and secret (link, secret) instead of the key, see shareLinks.ts
+export function parseUrlFragment(): {
+  key?: string;
+  iv?: string;
+  pw?: string;
+  share?: string;
+  link?: string;
+  secret?: string;
+} {
   const fragment = window.location.hash.substring(1);
   const params = new URLSearchParams(fragment);
   
   const key = params.get('key');
   const iv = params.get('iv');
+  const pw = params.get('pw');
+  const share = params.get('share');
+  const link = params.get('link');
+  const secret = params.get('secret');
   
   return {
     key: key ? decodeURIComponent(key) : undefined,
-    iv: iv ? decodeURIComponent(iv) : undefined
+    iv: iv ? decodeURIComponent(iv) : undefined,
+    pw: pw ? decodeURIComponent(pw) : undefined,
+    share: share ? decodeURIComponent(share) : undefined,
+    link: link ? decodeURIComponent(link) : undefined,
+    secret: secret ? decodeURIComponent(secret) : undefined
   };
 }
\ No newline at end of file
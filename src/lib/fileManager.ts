@@ -1,6 +1,39 @@
 import { supabase } from '@/integrations/supabase/client';
-import { encryptFile, decryptFileList } from '@/lib/encryption';
+import {
+  decryptFileList,
+  generateDownloadUrl,
+  generateNoteUrl,
+  decryptFileMetadata,
+  createFileDecryptStream,
+  arrayBufferToBase64,
+  base64ToArrayBuffer,
+  type FileMetadata
+} from '@/lib/encryption';
+import { encryptBlobInWorker, decryptFileInWorker, cancelledError, isCancelled } from '@/lib/cryptoWorker';
+import { uploadResumable, downloadFromUrl, streamFromUrl } from '@/lib/transfer';
+import { openSaveTarget, saveBlob } from '@/lib/saveStream';
+import { Sha256 } from '@/lib/sha256';
+import { MAX_PADDED_SIZE } from '@/lib/padding';
+import {
+  savePendingUpload,
+  setPendingUploadUrl,
+  loadPendingUpload,
+  deletePendingUpload,
+  claimPendingUpload,
+  releasePendingUpload,
+  type PendingUpload,
+  type PendingUploadDetails
+} from '@/lib/pendingUploads';
 import { SecureDataManager } from '@/lib/secureDataManager';
+import { isVaultUnlocked } from '@/lib/vault';
+import {
+  createPasswordShare,
+  setPasswordShare,
+  clearPasswordShare,
+  generatePasswordDownloadUrl
+} from '@/lib/sharePassword';
+import { signUpload, verifyUploadSignature, type SignatureStatus } from '@/lib/fileSignature';
+import { getSigningPublicKey } from '@/lib/identity';
 
 export interface EncryptedFileMetadata {
   id: string;
@@ -13,7 +46,13 @@ export interface EncryptedFileMetadata {
   maxDownloads?: number;
   downloadCount: number;
   key: string;
-  iv: string;
+  iv?: string; // Only set for legacy uploads without a cipher header
+  keyScheme?: string; // Unset for uploads from before per-purpose subkeys
+  shareLinkSecret?: string; // Set while the file has a share password
+  shareLinks?: { id: string; label: string; linkSecret: string }[]; // See shareLinks.ts
+  sha256?: string; // Hex SHA-256 of the plaintext, for checking against a download
+  kind?: 'note'; // Set for secret notes, see secretNotes.ts
+  relativePath?: string; // Path within an uploaded folder
 }
 
 export interface UploadResult {
@@ -21,18 +60,112 @@ export interface UploadResult {
   downloadUrl: string;
 }
 
+export interface DownloadResult {
+  signature: SignatureStatus;
+  sha256?: string; // Verified plaintext checksum, for files uploaded with one
+}
+
+export interface DecryptedDownload extends DownloadResult {
+  file: Blob;
+  metadata: FileMetadata;
+}
+
+// A claimed download: where to fetch the ciphertext, and the file's new download count
+interface DownloadClaim {
+  signedUrl: string;
+  encryptedMetadata: string;
+  downloadCount: number;
+}
+
+type ClaimDownloadResponse =
+  | ({ status: 'ok' } & DownloadClaim)
+  | { status: 'not_found' | 'expired' | 'limit_reached' | 'rate_limited' };
+
+// What a link recipient may know about a file before downloading it
+interface SharedFile {
+  encryptedMetadata: string;
+  paddedSize: number; // Size of the ciphertext, which hides the real size
+}
+
+// Expiry and download limit of an uploaded file, as changed from the file list
+export interface FileAccessSettings {
+  expiresAt: string | null; // Null for no expiry
+  maxDownloads: number | null; // Null for unlimited
+  resetDownloadCount?: boolean;
+}
+
+export type TransferPhase = 'encrypting' | 'uploading' | 'downloading' | 'decrypting';
+
+export interface TransferProgress {
+  phase: TransferPhase;
+  done: number; // Bytes processed in this phase
+  total: number;
+}
+
+export interface FileTransferOptions {
+  onProgress?: (progress: TransferProgress) => void;
+  signal?: AbortSignal; // Aborting terminates the crypto worker and the network request
+  compress?: boolean; // Compress compressible uploads before encrypting (see compression.ts)
+  relativePath?: string; // Path of an upload within a dropped or selected folder
+  onFileId?: (fileId: string) => void; // Called once an upload has an ID, which resumePendingUpload takes
+  linkId?: string; // Share link a download was opened through, whose limits apply as well
+  linkToken?: string; // That link's claim token (see linkClaimToken in shareLinks.ts)
+}
+
+// Key scheme recorded on new uploads: HKDF subkeys of a master file key
+export const CURRENT_KEY_SCHEME = 'hkdf-v1';
+
+// Largest file accepted for upload: just under 2GB, so the encrypted container fits in the bucket
+export const MAX_FILE_SIZE = MAX_PADDED_SIZE;
+
 // Upload an encrypted file
 export async function uploadEncryptedFile(
   file: File,
   expiryDays?: number,
-  maxDownloads?: number
+  maxDownloads?: number,
+  sharePassword?: string,
+  options: FileTransferOptions = {}
 ): Promise<UploadResult> {
+  return await uploadEncryptedBlob(file, {
+    originalName: file.name,
+    size: file.size,
+    type: file.type,
+    lastModified: file.lastModified,
+    encryptedAt: Date.now(),
+    relativePath: options.relativePath && options.relativePath !== file.name ? options.relativePath : undefined
+  }, expiryDays, maxDownloads, sharePassword, options);
+}
+
+// Upload content with the given metadata (files, and secret notes built in memory)
+// The ciphertext is kept in IndexedDB until the upload finishes, so an interrupted upload can be
+// picked up again with resumePendingUpload instead of starting over.
+export async function uploadEncryptedBlob(
+  source: Blob,
+  metadata: FileMetadata,
+  expiryDays?: number,
+  maxDownloads?: number,
+  sharePassword?: string,
+  options: FileTransferOptions = {}
+): Promise<UploadResult> {
+  const { onProgress, signal, compress } = options;
   const { data: { user }, error: userError } = await supabase.auth.getUser();
   if (userError || !user) throw new Error('User not authenticated');
 
   try {
-    // Encrypt file client-side
-    const { encryptedFile, encryptedMetadata, key, iv } = await encryptFile(file);
+    // The signing key goes inside the encrypted metadata, so a stripped signature is noticed
+    let signingKey: string | null = null;
+    try {
+      signingKey = await getSigningPublicKey(user.id);
+    } catch (error) {
+      console.error('Signing key lookup error:', error);
+    }
+    if (signingKey) metadata = { ...metadata, signingKey };
+
+    // Encrypt file client-side, off the main thread
+    const { encryptedFile, encryptedMetadata, key, sha256, paddedSize, ciphertextSha256 } = await encryptBlobInWorker(source, metadata, undefined, compress, {
+      signal,
+      onProgress: (done, total) => onProgress?.({ phase: 'encrypting', done, total })
+    });
 
     // Generate file ID
     const { data: fileIdData, error: fileIdError } = await supabase
@@ -40,141 +173,407 @@ export async function uploadEncryptedFile(
     
     if (fileIdError) throw fileIdError;
     const fileId = fileIdData;
+    options.onFileId?.(fileId);
 
-    // Upload encrypted file to storage
-    const storagePath = `${user.id}/${fileId}`;
-    const { error: uploadError } = await supabase.storage
-      .from('encrypted-files')
-      .upload(storagePath, new Blob([encryptedFile]), {
-        contentType: 'application/octet-stream',
-        cacheControl: '3600',
-        upsert: false
-      });
+    const pending: PendingUpload = {
+      fileId,
+      userId: user.id,
+      createdAt: Date.now(),
+      encryptedFile,
+      details: {
+        metadata,
+        encryptedMetadata,
+        key,
+        sha256,
+        paddedSize,
+        ciphertextSha256: arrayBufferToBase64(ciphertextSha256),
+        expiryDays,
+        maxDownloads,
+        sharePassword
+      }
+    };
 
-    if (uploadError) throw uploadError;
+    // Without local storage (private windows, quota) the upload still runs, it just can't be resumed
+    try {
+      await savePendingUpload(pending);
+    } catch (error) {
+      console.error('Could not save upload for resuming:', error);
+    }
 
-    // Calculate expiry date
-    const expiresAt = expiryDays 
-      ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString()
-      : null;
+    return await transferPendingUpload(pending, options);
+  } catch (error) {
+    console.error('Upload error:', error);
+    throw error;
+  }
+}
 
-    // Save metadata to database
-    const { error: metadataError } = await supabase
-      .from('encrypted_files')
-      .insert({
-        user_id: user.id,
-        file_id: fileId,
-        encrypted_filename: encryptedMetadata,
-        encrypted_metadata: { encryptedMetadata },
-        file_size: file.size,
-        mime_type: file.type,
-        storage_path: storagePath,
-        expires_at: expiresAt,
-        max_downloads: maxDownloads
-      });
+// Continue an upload saved by uploadEncryptedBlob, e.g. after a reload or a dropped connection
+export async function resumePendingUpload(fileId: string, options: FileTransferOptions = {}): Promise<UploadResult> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) throw new Error('User not authenticated');
 
-    if (metadataError) throw metadataError;
+  const pending = await loadPendingUpload(fileId);
+  if (!pending || pending.userId !== user.id) throw new Error('This upload can no longer be resumed');
 
-    // Update user's encrypted file list using secure encryption
-    const newFileMetadata = {
-      id: fileId,
-      fileId,
-      originalName: file.name,
-      size: file.size,
-      type: file.type,
-      uploadDate: new Date().toISOString(),
-      expiresAt: expiresAt || undefined,
-      maxDownloads,
-      downloadCount: 0,
-      key,
-      iv
-    };
-    
-    const existingFiles = await SecureDataManager.getDecryptedFileList(user.id);
-    const updatedFiles = existingFiles.filter(f => f.fileId !== fileId);
-    updatedFiles.push(newFileMetadata);
-    await SecureDataManager.storeEncryptedFileList(user.id, updatedFiles);
+  try {
+    return await transferPendingUpload(pending, options);
+  } catch (error) {
+    console.error('Resume upload error:', error);
+    throw error;
+  }
+}
 
-    // Generate download URL with properly encoded keys
-    const downloadUrl = `${window.location.origin}/f/${fileId}#key=${encodeURIComponent(key)}&iv=${encodeURIComponent(iv)}`;
+// Send a pending upload's ciphertext over tus, then record the file
+// A cancelled upload is forgotten; one that fails otherwise stays saved for resuming.
+async function transferPendingUpload(pending: PendingUpload, options: FileTransferOptions): Promise<UploadResult> {
+  const { onProgress, signal } = options;
+  const { fileId, userId } = pending;
+  const storagePath = `${userId}/${fileId}`;
 
-    // Log upload action with encryption
-    await SecureDataManager.storeEncryptedAuditLog(user.id, {
-      action: 'upload',
-      timestamp: new Date().toISOString(),
-      data: {
-        fileId,
-        fileName: file.name,
-        fileSize: file.size
-      }
+  if (!claimPendingUpload(fileId)) throw new Error('This upload is already running');
+
+  try {
+    await uploadResumable(storagePath, pending.encryptedFile, {
+      signal,
+      uploadUrl: pending.uploadUrl,
+      onUploadUrl: uploadUrl => {
+        setPendingUploadUrl(fileId, uploadUrl).catch(error => console.error('Could not save upload URL:', error));
+      },
+      onProgress: (done, total) => onProgress?.({ phase: 'uploading', done, total })
     });
 
-    return { fileId, downloadUrl };
+    // Past this point nothing else can be interrupted, so a late cancel drops the stored object
+    if (signal?.aborted) {
+      await supabase.storage.from('encrypted-files').remove([storagePath]);
+      throw cancelledError();
+    }
+
+    const result = await recordUpload(userId, fileId, storagePath, pending.details);
+    await forgetPendingUpload(fileId);
+    return result;
   } catch (error) {
-    console.error('Upload error:', error);
+    if (isCancelled(error)) await forgetPendingUpload(fileId);
+    throw error;
+  } finally {
+    releasePendingUpload(fileId);
+  }
+}
+
+// Drop the saved copy of an upload; a leftover record is only a stale resume offer
+async function forgetPendingUpload(fileId: string): Promise<void> {
+  try {
+    await deletePendingUpload(fileId);
+  } catch (error) {
+    console.error('Could not remove saved upload:', error);
+  }
+}
+
+// Record a stored upload: signature, database row, share password, file list and audit log
+async function recordUpload(
+  userId: string,
+  fileId: string,
+  storagePath: string,
+  details: PendingUploadDetails
+): Promise<UploadResult> {
+  const { metadata, encryptedMetadata, key, sha256, paddedSize, expiryDays, maxDownloads, sharePassword } = details;
+
+  // Sign the ciphertext so recipients can check who uploaded it. Uploads without a signing key
+  // still work unsigned, but once the metadata names a key the signature must be there too,
+  // or recipients would be told it was stripped; the upload stays saved for retrying.
+  let signature: string | null = null;
+  try {
+    const ciphertextSha256 = new Uint8Array(base64ToArrayBuffer(details.ciphertextSha256));
+    signature = await signUpload(userId, fileId, ciphertextSha256, encryptedMetadata);
+  } catch (error) {
+    console.error('Upload signing error:', error);
+    if (metadata.signingKey) throw new Error('Could not sign the upload, please try again');
+  }
+
+  // Calculate expiry date
+  const expiresAt = expiryDays 
+    ? new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000).toISOString()
+    : null;
+
+  // Save metadata to database - real size and type only exist inside the encrypted metadata
+  // An upsert, so a resumed upload whose recording failed part-way can be recorded again
+  const { error: metadataError } = await supabase
+    .from('encrypted_files')
+    .upsert({
+      user_id: userId,
+      file_id: fileId,
+      encrypted_filename: encryptedMetadata,
+      encrypted_metadata: { encryptedMetadata },
+      file_size: paddedSize,
+      storage_path: storagePath,
+      expires_at: expiresAt,
+      max_downloads: maxDownloads,
+      signature,
+      signing_public_key: signature ? metadata.signingKey ?? null : null
+    }, {
+      onConflict: 'file_id'
+    });
+
+  if (metadataError) throw metadataError;
+
+  // Wrap the key under the share password, if one was given
+  const passwordShare = sharePassword ? await createPasswordShare(key, sharePassword) : null;
+  if (passwordShare) {
+    await setPasswordShare(fileId, passwordShare);
+  }
+
+  // Update user's encrypted file list using secure encryption
+  const newFileMetadata = {
+    id: fileId,
+    fileId,
+    originalName: metadata.originalName,
+    size: metadata.size,
+    type: metadata.type,
+    uploadDate: new Date().toISOString(),
+    expiresAt: expiresAt || undefined,
+    maxDownloads,
+    downloadCount: 0,
+    key,
+    keyScheme: CURRENT_KEY_SCHEME,
+    shareLinkSecret: passwordShare?.linkSecret,
+    sha256,
+    kind: metadata.kind,
+    relativePath: metadata.relativePath
+  };
+  
+  await updateUserFileList(userId, newFileMetadata);
+
+  // Generate download URL - password links leave the key out of the fragment, notes get a view link
+  const downloadUrl = getShareUrl(newFileMetadata);
+
+  // Log upload action with encryption
+  await SecureDataManager.storeEncryptedAuditLog(userId, {
+    action: 'upload',
+    timestamp: new Date().toISOString(),
+    data: {
+      fileId,
+      fileName: metadata.originalName,
+      fileSize: metadata.size,
+      sha256
+    }
+  });
+
+  return { fileId, downloadUrl };
+}
+
+// Shareable URL for a file list entry (the password link when the file has a share password)
+export function getShareUrl(file: EncryptedFileMetadata): string {
+  if (file.kind === 'note') return generateNoteUrl(file.fileId, file.key);
+  return file.shareLinkSecret
+    ? generatePasswordDownloadUrl(file.fileId, file.shareLinkSecret)
+    : generateDownloadUrl(file.fileId, file.key, file.iv);
+}
+
+// Set or remove (password null) the share password of a file the user owns
+// A new password always gets a new link secret, so earlier password links stop working
+export async function updateSharePassword(fileId: string, password: string | null): Promise<void> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) throw new Error('User not authenticated');
+
+  const fileList = await SecureDataManager.getDecryptedFileList(user.id);
+  const file = fileList.find(f => f.fileId === fileId);
+  if (!file) throw new Error('File not found in your file list');
+
+  let shareLinkSecret: string | undefined;
+  if (password) {
+    const passwordShare = await createPasswordShare(file.key, password);
+    await setPasswordShare(fileId, passwordShare);
+    shareLinkSecret = passwordShare.linkSecret;
+  } else {
+    await clearPasswordShare(fileId);
+  }
+
+  await updateFileListEntry(user.id, fileId, current => ({ ...current, shareLinkSecret }));
+
+  await SecureDataManager.storeEncryptedAuditLog(user.id, {
+    action: password ? 'share_password_set' : 'share_password_removed',
+    timestamp: new Date().toISOString(),
+    data: { fileId }
+  });
+}
+
+// Change a file's expiry and download limit, and optionally reset its download count
+// The database row and the file list entry are updated together: if the file list can't be
+// saved, the row is put back as it was.
+export async function updateFileAccess(fileId: string, settings: FileAccessSettings): Promise<void> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) throw new Error('User not authenticated');
+
+  const fileList = await SecureDataManager.getDecryptedFileList(user.id);
+  const file = fileList.find(f => f.fileId === fileId);
+  if (!file) throw new Error('File not found in your file list');
+
+  const { data: previous, error: fileError } = await supabase
+    .from('encrypted_files')
+    .select('expires_at, max_downloads, download_count')
+    .eq('file_id', fileId)
+    .eq('user_id', user.id)
+    .single();
+
+  if (fileError) throw new Error(`File not found: ${fileError.message}`);
+
+  // The count is only written when resetting, so downloads claimed meanwhile aren't lost
+  const downloadCount = settings.resetDownloadCount ? 0 : previous.download_count;
+  const { error: updateError } = await supabase
+    .from('encrypted_files')
+    .update({
+      expires_at: settings.expiresAt,
+      max_downloads: settings.maxDownloads,
+      ...(settings.resetDownloadCount ? { download_count: 0 } : {})
+    })
+    .eq('file_id', fileId)
+    .eq('user_id', user.id);
+
+  if (updateError) throw updateError;
+
+  try {
+    await updateFileListEntry(user.id, fileId, current => ({
+      ...current,
+      expiresAt: settings.expiresAt ?? undefined,
+      maxDownloads: settings.maxDownloads ?? undefined,
+      downloadCount
+    }));
+  } catch (error) {
+    const { error: restoreError } = await supabase
+      .from('encrypted_files')
+      .update({
+        expires_at: previous.expires_at,
+        max_downloads: previous.max_downloads,
+        ...(settings.resetDownloadCount ? { download_count: previous.download_count } : {})
+      })
+      .eq('file_id', fileId)
+      .eq('user_id', user.id);
+
+    if (restoreError) console.error('Could not restore file access settings:', restoreError);
     throw error;
   }
+
+  await SecureDataManager.storeEncryptedAuditLog(user.id, {
+    action: 'access_updated',
+    timestamp: new Date().toISOString(),
+    data: {
+      fileId,
+      fileName: file.originalName,
+      expiresAt: settings.expiresAt,
+      maxDownloads: settings.maxDownloads,
+      resetDownloadCount: !!settings.resetDownloadCount
+    }
+  });
 }
 
-// Get user's encrypted file list with secure decryption
+// Get user's encrypted file list with secure decryption, for display only
+// Falls back to an empty list, so never write what this returns back to the index
 export async function getUserFileList(): Promise<EncryptedFileMetadata[]> {
   const { data: { user }, error: userError } = await supabase.auth.getUser();
   if (userError || !user) throw new Error('User not authenticated');
 
   try {
-    return await SecureDataManager.getDecryptedFileList(user.id);
+    const fileList: EncryptedFileMetadata[] = await SecureDataManager.getDecryptedFileList(user.id);
+    return await dropPurgedFiles(user.id, fileList);
   } catch (error) {
     console.error('Error getting file list:', error);
     return [];
   }
 }
 
+// Drop file list entries whose database row is gone, i.e. files the scheduled purge removed
+// Rows are inserted before their entry is added, so an entry without a row is never an
+// upload still being recorded. If the rows can't be checked, the list is left as it is.
+async function dropPurgedFiles(userId: string, fileList: EncryptedFileMetadata[]): Promise<EncryptedFileMetadata[]> {
+  // Checked in batches, keeping each request well under URL and row limits
+  const stored = new Set<string>();
+  for (let i = 0; i < fileList.length; i += 100) {
+    const { data, error } = await supabase
+      .from('encrypted_files')
+      .select('file_id')
+      .eq('user_id', userId)
+      .in('file_id', fileList.slice(i, i + 100).map(file => file.fileId));
+
+    if (error) {
+      console.error('Error checking for purged files:', error);
+      return fileList;
+    }
+    for (const row of data || []) stored.add(row.file_id);
+  }
+
+  const purged = fileList.filter(file => !stored.has(file.fileId)).map(file => file.fileId);
+  if (purged.length === 0) return fileList;
+
+  try {
+    // Re-read before writing, so entries added meanwhile are kept
+    await SecureDataManager.updateFileList(userId, (currentList: EncryptedFileMetadata[]) =>
+      currentList.filter(file => !purged.includes(file.fileId))
+    );
+  } catch (error) {
+    console.error('Error removing purged files from file list:', error);
+  }
+  return fileList.filter(file => !purged.includes(file.fileId));
+}
+
 // Update user's encrypted file list with secure encryption
 export async function updateUserFileList(userId: string, newFile: EncryptedFileMetadata): Promise<void> {
   try {
-    const existingFiles = await SecureDataManager.getDecryptedFileList(userId);
-    const updatedFiles = existingFiles.filter(file => file.fileId !== newFile.fileId);
-    updatedFiles.push(newFile);
-    
-    await SecureDataManager.storeEncryptedFileList(userId, updatedFiles);
-    console.log('File list updated successfully for user:', userId, 'Total files:', updatedFiles.length);
+    await SecureDataManager.updateFileList(userId, (existingFiles: EncryptedFileMetadata[]) => [
+      ...existingFiles.filter(file => file.fileId !== newFile.fileId),
+      newFile
+    ]);
   } catch (error) {
     console.error('Error updating file list:', error);
     throw error;
   }
 }
 
+// Change one entry of the user's file list, as it is when the list is written
+// Does nothing if the entry is gone by then (e.g. the file was deleted meanwhile)
+export async function updateFileListEntry(
+  userId: string,
+  fileId: string,
+  update: (file: EncryptedFileMetadata) => EncryptedFileMetadata
+): Promise<void> {
+  await SecureDataManager.updateFileList(userId, (fileList: EncryptedFileMetadata[]) =>
+    fileList.some(file => file.fileId === fileId)
+      ? fileList.map(file => (file.fileId === fileId ? update(file) : file))
+      : null
+  );
+}
+
 // Delete an encrypted file
 export async function deleteEncryptedFile(fileId: string): Promise<void> {
   const { data: { user }, error: userError } = await supabase.auth.getUser();
   if (userError || !user) throw new Error('User not authenticated');
 
   try {
-    // Get file metadata
+    // Get file metadata; the row is already gone if the scheduled purge got there first
     const { data: fileData, error: fileError } = await supabase
       .from('encrypted_files')
       .select('storage_path')
       .eq('file_id', fileId)
       .eq('user_id', user.id)
-      .single();
+      .maybeSingle();
 
     if (fileError) throw fileError;
 
-    // Delete from storage
-    const { error: storageError } = await supabase.storage
-      .from('encrypted-files')
-      .remove([fileData.storage_path]);
+    if (fileData) {
+      // Delete from storage
+      const { error: storageError } = await supabase.storage
+        .from('encrypted-files')
+        .remove([fileData.storage_path]);
 
-    if (storageError) throw storageError;
+      if (storageError) throw storageError;
 
-    // Delete metadata from database
-    const { error: dbError } = await supabase
-      .from('encrypted_files')
-      .delete()
-      .eq('file_id', fileId)
-      .eq('user_id', user.id);
+      // Delete metadata from database
+      const { error: dbError } = await supabase
+        .from('encrypted_files')
+        .delete()
+        .eq('file_id', fileId)
+        .eq('user_id', user.id);
 
-    if (dbError) throw dbError;
+      if (dbError) throw dbError;
+    }
 
     // Update user's file list
     await removeFromUserFileList(user.id, fileId);
@@ -194,9 +593,9 @@ export async function deleteEncryptedFile(fileId: string): Promise<void> {
 // Remove file from user's encrypted file list with secure encryption
 export async function removeFromUserFileList(userId: string, fileId: string): Promise<void> {
   try {
-    const currentList = await SecureDataManager.getDecryptedFileList(userId);
-    const updatedList = currentList.filter((file: any) => file.fileId !== fileId);
-    await SecureDataManager.storeEncryptedFileList(userId, updatedList);
+    await SecureDataManager.updateFileList(userId, (currentList: EncryptedFileMetadata[]) =>
+      currentList.filter(file => file.fileId !== fileId)
+    );
   } catch (error) {
     console.error('Error removing from file list:', error);
     throw error;
@@ -228,92 +627,168 @@ async function promptForPassword(): Promise<string | null> {
   return prompt('Enter your password to decrypt file list:');
 }
 
-// Download encrypted file by ID
-export async function downloadEncryptedFile(fileId: string, key: string, iv: string): Promise<void> {
-  try {
-    console.log('Starting download for file ID:', fileId);
-    
-    // Get file metadata from database
-    const { data: fileData, error: fileError } = await supabase
-      .from('encrypted_files')
-      .select('storage_path, encrypted_metadata, encrypted_filename, download_count, max_downloads')
-      .eq('file_id', fileId)
-      .single();
+// Download encrypted file by ID and save it
+// The download is only claimed (and counted) on the server once there is somewhere to save it,
+// so backing out of the save dialog costs nothing. Files in the chunked format are decrypted as
+// they arrive and written straight to disk (see saveStream.ts), so they never have to fit in
+// memory; legacy uploads are decrypted whole.
+// Resolves with the uploader's signature status and the verified plaintext checksum
+export async function downloadEncryptedFile(
+  fileId: string,
+  key: string,
+  iv?: string,
+  options: FileTransferOptions = {}
+): Promise<DownloadResult> {
+  if (iv) {
+    const { file, metadata, signature, sha256 } = await fetchDecryptedFile(fileId, key, iv, options);
+    saveBlob(file, metadata.originalName);
+    return { signature, sha256 };
+  }
 
-    if (fileError) {
-      console.error('Database error:', fileError);
-      throw new Error(`File not found: ${fileError.message}`);
+  const { onProgress, signal, linkId, linkToken } = options;
+
+  try {
+    const sharedFile = await getSharedFile(fileId, linkId);
+    const metadata = await decryptFileMetadata(sharedFile.encryptedMetadata, key);
+
+    // Ask where to save before anything slow happens, while the click still counts
+    const target = await openSaveTarget(metadata.originalName, metadata.type, metadata.size);
+
+    let claim: DownloadClaim;
+    let ciphertext: ReadableStream<Uint8Array>;
+    try {
+      claim = await claimDownload(fileId, linkId, linkToken);
+      ciphertext = await streamFromUrl(claim.signedUrl, {
+        signal,
+        onProgress: (done, total) => onProgress?.({ phase: 'downloading', done, total })
+      });
+    } catch (error) {
+      await target.discard();
+      throw error;
     }
 
-    console.log('File data retrieved:', fileData);
+    // Decrypt on the way from the network to the disk
+    const ciphertextHash = new Sha256();
+    await target.write(ciphertext.pipeThrough(createFileDecryptStream(metadata, key, ciphertextHash)), signal);
 
-    // Check download limits
-    if (fileData.max_downloads && fileData.download_count >= fileData.max_downloads) {
-      throw new Error('Download limit exceeded');
-    }
+    const signatureStatus = await verifyUploadSignature(fileId, ciphertextHash.digest(), claim.encryptedMetadata, metadata);
+    await recordDownload(fileId, linkId ? undefined : claim.downloadCount, metadata);
 
-    // Get encrypted file from storage
-    const { data: storageData, error: storageError } = await supabase.storage
-      .from('encrypted-files')
-      .download(fileData.storage_path);
-
-    if (storageError) throw storageError;
-
-    // Convert to ArrayBuffer
-    const encryptedFile = await storageData.arrayBuffer();
-
-    // Decrypt file client-side
-    const { decryptFile } = await import('@/lib/encryption');
-    const metadataObj = fileData.encrypted_metadata as any;
-    const encryptedMetadataStr = metadataObj?.encryptedMetadata || fileData.encrypted_filename;
-    const { file, metadata } = await decryptFile(encryptedFile, encryptedMetadataStr, key, iv);
-
-    // Trigger download
-    const url = URL.createObjectURL(file);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = metadata.originalName;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-
-    // Update download count and refresh file list in memory
-    const newDownloadCount = fileData.download_count + 1;
-    await supabase
-      .from('encrypted_files')
-      .update({ download_count: newDownloadCount })
-      .eq('file_id', fileId);
-
-    // Update the user's file list with new download count and log download action
-    const { data: { user: currentUser } } = await supabase.auth.getUser();
-    if (currentUser) {
-      const fileList = await getUserFileList();
-      const updatedFileList = fileList.map(file => 
-        file.fileId === fileId 
-          ? { ...file, downloadCount: newDownloadCount }
-          : file
-      );
-      await updateUserFileListData(currentUser.id, updatedFileList);
-
-      // Log download action with encryption
-      await SecureDataManager.storeEncryptedAuditLog(currentUser.id, {
-        action: 'download',
-        timestamp: new Date().toISOString(),
-        data: { fileId }
-      });
-    }
+    return { signature: signatureStatus, sha256: metadata.sha256 };
   } catch (error) {
     console.error('Download error:', error);
     throw error;
   }
 }
 
-// Helper function to update file list data with secure encryption
-async function updateUserFileListData(userId: string, fileList: EncryptedFileMetadata[]): Promise<void> {
+// Download and decrypt a file by ID without saving it; counts as a download
+export async function fetchDecryptedFile(
+  fileId: string,
+  key: string,
+  iv?: string,
+  options: FileTransferOptions = {}
+): Promise<DecryptedDownload> {
+  const { onProgress, signal, linkId, linkToken } = options;
+
   try {
-    await SecureDataManager.storeEncryptedFileList(userId, fileList);
+    const claim = await claimDownload(fileId, linkId, linkToken);
+
+    // Get encrypted file from storage
+    const storageData = await downloadFromUrl(claim.signedUrl, {
+      signal,
+      onProgress: (done, total) => onProgress?.({ phase: 'downloading', done, total })
+    });
+
+    // Decrypt file client-side in the worker, streaming through the chunked container
+    const { file, metadata, ciphertextSha256 } = await decryptFileInWorker(storageData, claim.encryptedMetadata, key, iv, {
+      signal,
+      onProgress: (done, total) => onProgress?.({ phase: 'decrypting', done, total })
+    });
+    const signatureStatus = await verifyUploadSignature(fileId, ciphertextSha256, claim.encryptedMetadata, metadata);
+
+    await recordDownload(fileId, linkId ? undefined : claim.downloadCount, metadata);
+
+    return { file, metadata, signature: signatureStatus, sha256: metadata.sha256 };
   } catch (error) {
-    console.error('Error updating file list:', error);
+    console.error('Download error:', error);
+    throw error;
+  }
+}
+
+// Decrypt a file's metadata (name, type, size) without downloading it or counting a download
+export async function getFileMetadata(fileId: string, key: string, iv?: string, linkId?: string): Promise<FileMetadata> {
+  const { encryptedMetadata } = await getSharedFile(fileId, linkId);
+  return await decryptFileMetadata(encryptedMetadata, key, iv);
+}
+
+// Look up a file through get_shared_file, which works for anyone holding a link
+// Throws if the file can no longer be downloaded (through the share link, when given one)
+async function getSharedFile(fileId: string, linkId?: string): Promise<SharedFile> {
+  const { data, error } = await supabase
+    .rpc('get_shared_file', { p_file_id: fileId, p_link_id: linkId })
+    .single();
+
+  if (error) {
+    console.error('Shared file lookup error:', error);
+    throw new Error(`File not found: ${error.message}`);
+  }
+  if (data.status !== 'available') throw unavailableError(data.status);
+
+  return { encryptedMetadata: data.encrypted_metadata, paddedSize: data.padded_size };
+}
+
+// Why a file can't be downloaded, as shown to the recipient
+function unavailableError(status: string): Error {
+  switch (status) {
+    case 'expired':
+      return new Error('This file has expired');
+    case 'limit_reached':
+      return new Error('Download limit exceeded');
+    case 'rate_limited':
+      return new Error('This file is being downloaded too often, please try again in a minute');
+    case 'link_required':
+      return new Error('This file can only be downloaded through one of its share links');
+    default:
+      return new Error('File not found');
+  }
+}
+
+// Claim a download through the claim-download edge function, which checks expiry and the
+// download limit and counts the download atomically before handing out a signed URL
+// A claimed download stays counted even if the transfer is then cancelled or fails.
+async function claimDownload(fileId: string, linkId?: string, linkToken?: string): Promise<DownloadClaim> {
+  const { data, error } = await supabase.functions.invoke<ClaimDownloadResponse>('claim-download', {
+    body: { fileId, linkId, linkToken }
+  });
+
+  if (error || !data) {
+    console.error('Claim error:', error);
+    throw new Error('Could not start the download, please try again');
   }
-}
\ No newline at end of file
+
+  if (data.status !== 'ok') throw unavailableError(data.status);
+  return { signedUrl: data.signedUrl, encryptedMetadata: data.encryptedMetadata, downloadCount: data.downloadCount };
+}
+
+// Update the download count in the user's file list, if the file is theirs, and log the download
+// downloadCount is unset for downloads through a share link, which count against the link alone
+async function recordDownload(fileId: string, downloadCount: number | undefined, metadata: FileMetadata): Promise<void> {
+  const { data: { user: currentUser } } = await supabase.auth.getUser();
+  if (currentUser && isVaultUnlocked(currentUser.id)) {
+    // The file is already saved by now, so a list that can't be read only costs the count
+    if (downloadCount !== undefined) {
+      try {
+        await updateFileListEntry(currentUser.id, fileId, file => ({ ...file, downloadCount }));
+      } catch (error) {
+        console.error('Error updating download count:', error);
+      }
+    }
+
+    // Log download action with encryption
+    await SecureDataManager.storeEncryptedAuditLog(currentUser.id, {
+      action: 'download',
+      timestamp: new Date().toISOString(),
+      data: { fileId, sha256: metadata.sha256 }
+    });
+  }
+}
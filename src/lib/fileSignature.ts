@@ -0,0 +1,93 @@
+// Sender signatures on uploads
+// Owners sign CONTEXT | 0 | fileId | 0 | SHA-256(ciphertext) | SHA-256(encrypted metadata) with
+// their signing key (see identity.ts). Anyone holding a link can verify it against the key
+// published on the owner's profile; binding the file id stops a signed upload being served
+// under another of the owner's links.
+// The key is recorded with the signature, and for newer uploads inside the encrypted metadata
+// as well. That copy is what gets verified against, so the server can neither swap the key nor
+// strip the signature without the download page noticing, and files signed before a vault
+// reset keep verifying against the key they were signed with.
+
+import { supabase } from '@/integrations/supabase/client';
+import { arrayBufferToBase64, base64ToArrayBuffer, type FileMetadata } from '@/lib/encryption';
+import { signWithIdentityKey, importSigningPublicKey, keyFingerprint } from '@/lib/identity';
+
+const SIGNATURE_CONTEXT = 'shard-cipher/signature/v1';
+
+export type SignatureStatus =
+  | { state: 'valid'; signerName: string; fingerprint: string; replacedKey: boolean }
+  | { state: 'invalid'; signerName: string }
+  | { state: 'missing'; signerName: string } // Metadata says signed, but there is no signature
+  | { state: 'unsigned' };
+
+// The exact bytes that get signed for an upload
+// The ciphertext hash comes from encryptBlob / decryptFile, which compute it while streaming
+async function signedMessage(fileId: string, fileHash: Uint8Array, encryptedMetadata: string): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const context = encoder.encode(SIGNATURE_CONTEXT);
+  const id = encoder.encode(fileId);
+  const metadataHash = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(encryptedMetadata)));
+
+  const message = new Uint8Array(context.length + 1 + id.length + 1 + fileHash.length + metadataHash.length);
+  let offset = 0;
+  message.set(context, offset);
+  offset += context.length + 1;
+  message.set(id, offset);
+  offset += id.length + 1;
+  message.set(fileHash, offset);
+  offset += fileHash.length;
+  message.set(metadataHash, offset);
+  return message;
+}
+
+// Sign an upload with the owner's signing key; returns the base64 signature
+export async function signUpload(
+  userId: string,
+  fileId: string,
+  ciphertextSha256: Uint8Array,
+  encryptedMetadata: string
+): Promise<string> {
+  const message = await signedMessage(fileId, ciphertextSha256, encryptedMetadata);
+  return arrayBufferToBase64(await signWithIdentityKey(userId, message));
+}
+
+// Check a downloaded file against its owner's signature
+export async function verifyUploadSignature(
+  fileId: string,
+  ciphertextSha256: Uint8Array,
+  encryptedMetadata: string,
+  metadata: FileMetadata
+): Promise<SignatureStatus> {
+  const { data, error } = await supabase
+    .rpc('get_file_signer', { p_file_id: fileId });
+
+  if (error) throw error;
+  const signer = data?.[0];
+  const signerName = signer?.full_name || 'Unknown sender';
+  if (!signer?.signature) {
+    return metadata.signingKey ? { state: 'missing', signerName } : { state: 'unsigned' };
+  }
+
+  const signingKey = metadata.signingKey ?? signer.signing_public_key;
+  if (!signingKey) return { state: 'invalid', signerName };
+
+  try {
+    const valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      await importSigningPublicKey(signingKey),
+      base64ToArrayBuffer(signer.signature),
+      await signedMessage(fileId, ciphertextSha256, encryptedMetadata)
+    );
+    return valid
+      ? {
+          state: 'valid',
+          signerName,
+          fingerprint: await keyFingerprint(signingKey),
+          replacedKey: signingKey !== signer.current_signing_key
+        }
+      : { state: 'invalid', signerName };
+  } catch (error) {
+    console.error('Signature verification error:', error);
+    return { state: 'invalid', signerName };
+  }
+}
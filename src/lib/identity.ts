@@ -0,0 +1,199 @@
+// Per-account identity keys for sharing files directly between accounts
+// Each account has an ECDH P-256 keypair for receiving file keys and an ECDSA P-256 keypair
+// for signing uploads. Public keys are published on the profile and private keys are kept
+// in the user's vault, encrypted under a vault subkey.
+//
+// File keys are wrapped to a recipient ECIES-style:
+//   ephemeral public key (65, raw) | message (see encryptMessage)
+// where the message key is HKDF(ECDH(ephemeral, recipient)) and its header records the HKDF salt.
+
+import { supabase } from '@/integrations/supabase/client';
+import { KdfId, encodeHkdfParams, decodeHkdfParams } from '@/lib/cipherHeader';
+import {
+  deriveSubkey,
+  encryptMessage,
+  decryptMessage,
+  generateSalt,
+  arrayBufferToBase64,
+  base64ToArrayBuffer
+} from '@/lib/encryption';
+import { SecureDataManager } from '@/lib/secureDataManager';
+
+const ECDH_PARAMS = { name: 'ECDH', namedCurve: 'P-256' } as const;
+const ECDSA_PARAMS = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const RAW_PUBLIC_KEY_LENGTH = 65;
+const SHARE_WRAP_INFO = 'shard-cipher/share/ecdh/v1';
+
+// Vault data types the private keys are encrypted under (see SecureDataManager.encryptData)
+type IdentityKeyType = 'identity_key' | 'signing_key';
+
+// Import a published (raw, base64) public key
+export async function importPublicKey(publicKeyBase64: string): Promise<CryptoKey> {
+  return await crypto.subtle.importKey('raw', base64ToArrayBuffer(publicKeyBase64), ECDH_PARAMS, true, []);
+}
+
+// Import a published (raw, base64) signing public key
+export async function importSigningPublicKey(publicKeyBase64: string): Promise<CryptoKey> {
+  return await crypto.subtle.importKey('raw', base64ToArrayBuffer(publicKeyBase64), ECDSA_PARAMS, false, ['verify']);
+}
+
+// Short, human-comparable fingerprint of a published public key, e.g. "3F2A 9C01 ..."
+export async function keyFingerprint(publicKeyBase64: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', base64ToArrayBuffer(publicKeyBase64)));
+  const hex = Array.from(digest.slice(0, 16), b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+  return hex.match(/.{4}/g)?.join(' ') ?? hex;
+}
+
+// Fingerprint of the user's own published sharing key, for people sharing with them to compare
+export async function getOwnKeyFingerprint(userId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('public_key')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.public_key ? await keyFingerprint(data.public_key) : null;
+}
+
+// The user's published signing public key, recorded with everything they sign
+export async function getSigningPublicKey(userId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('signing_public_key')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.signing_public_key ?? null;
+}
+
+// Store a private key in the user's vault row, encrypted under a vault subkey
+async function storePrivateKey(userId: string, type: IdentityKeyType, privateKey: CryptoKey): Promise<void> {
+  const pkcs8 = await crypto.subtle.exportKey('pkcs8', privateKey);
+  const encrypted = JSON.stringify(
+    await SecureDataManager.encryptData({ privateKey: arrayBufferToBase64(pkcs8) }, userId, type)
+  );
+
+  const { error } = await supabase
+    .from('user_vaults')
+    .update(type === 'identity_key' ? { encrypted_private_key: encrypted } : { encrypted_signing_key: encrypted })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+// Create and publish whichever identity keypairs the account doesn't have yet
+// Needs the vault unlocked, since the private keys are stored encrypted under it
+export async function ensureIdentityKeys(userId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('user_vaults')
+    .select('encrypted_private_key, encrypted_signing_key')
+    .eq('user_id', userId)
+    .single();
+
+  if (error) throw error;
+
+  // Private keys are stored first, so a published public key always has a usable private key
+  if (!data.encrypted_private_key) {
+    const keyPair = await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveBits']);
+    await storePrivateKey(userId, 'identity_key', keyPair.privateKey);
+
+    const publicKey = await crypto.subtle.exportKey('raw', keyPair.publicKey);
+    const { error: publishError } = await supabase
+      .rpc('set_public_key', { p_public_key: arrayBufferToBase64(publicKey) });
+
+    if (publishError) throw publishError;
+  }
+
+  if (!data.encrypted_signing_key) {
+    const keyPair = await crypto.subtle.generateKey(ECDSA_PARAMS, true, ['sign', 'verify']);
+    await storePrivateKey(userId, 'signing_key', keyPair.privateKey);
+
+    const publicKey = await crypto.subtle.exportKey('raw', keyPair.publicKey);
+    const { error: publishError } = await supabase
+      .rpc('set_signing_key', { p_signing_key: arrayBufferToBase64(publicKey) });
+
+    if (publishError) throw publishError;
+  }
+}
+
+// Load one of the user's private keys from their vault
+async function loadPrivateKey(userId: string, type: IdentityKeyType): Promise<CryptoKey> {
+  const { data, error } = await supabase
+    .from('user_vaults')
+    .select('encrypted_private_key, encrypted_signing_key')
+    .eq('user_id', userId)
+    .single();
+
+  if (error) throw error;
+  const encrypted = type === 'identity_key' ? data.encrypted_private_key : data.encrypted_signing_key;
+  if (!encrypted) {
+    throw new Error('This account has no identity key yet - unlock your vault first');
+  }
+
+  const { privateKey } = await SecureDataManager.decryptData(JSON.parse(encrypted), userId, type);
+  return type === 'identity_key'
+    ? await crypto.subtle.importKey('pkcs8', base64ToArrayBuffer(privateKey), ECDH_PARAMS, false, ['deriveBits'])
+    : await crypto.subtle.importKey('pkcs8', base64ToArrayBuffer(privateKey), ECDSA_PARAMS, false, ['sign']);
+}
+
+// Sign a message with the user's signing key
+export async function signWithIdentityKey(userId: string, message: Uint8Array): Promise<Uint8Array> {
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    await loadPrivateKey(userId, 'signing_key'),
+    message
+  );
+  return new Uint8Array(signature);
+}
+
+// Wrap a (base64) file key so only the holder of the recipient's private key can open it
+export async function wrapKeyForRecipient(keyBase64: string, recipientPublicKey: string): Promise<string> {
+  const recipientKey = await importPublicKey(recipientPublicKey);
+  const ephemeral = await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveBits']);
+  const sharedSecret = await crypto.subtle.deriveBits(
+    { name: 'ECDH', public: recipientKey },
+    ephemeral.privateKey,
+    256
+  );
+
+  const params = { salt: generateSalt(), info: SHARE_WRAP_INFO };
+  const wrapKey = await deriveSubkey(sharedSecret, params.salt, params.info);
+  const message = await encryptMessage(base64ToArrayBuffer(keyBase64), wrapKey, {
+    kdfId: KdfId.HKDF_SHA256,
+    kdfParams: encodeHkdfParams(params)
+  });
+
+  const ephemeralPublic = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+  const wrapped = new Uint8Array(ephemeralPublic.length + message.length);
+  wrapped.set(ephemeralPublic, 0);
+  wrapped.set(message, ephemeralPublic.length);
+  return arrayBufferToBase64(wrapped);
+}
+
+// Unwrap a file key that was wrapped to the user with wrapKeyForRecipient
+export async function unwrapKeyForUser(wrappedKey: string, userId: string): Promise<string> {
+  const wrapped = new Uint8Array(base64ToArrayBuffer(wrappedKey));
+  const ephemeralPublic = await crypto.subtle.importKey(
+    'raw',
+    wrapped.slice(0, RAW_PUBLIC_KEY_LENGTH),
+    ECDH_PARAMS,
+    false,
+    []
+  );
+  const sharedSecret = await crypto.subtle.deriveBits(
+    { name: 'ECDH', public: ephemeralPublic },
+    await loadPrivateKey(userId, 'identity_key'),
+    256
+  );
+
+  const key = await decryptMessage(wrapped.slice(RAW_PUBLIC_KEY_LENGTH), async (header) => {
+    if (header.kdfId !== KdfId.HKDF_SHA256) {
+      throw new Error(`Unsupported key derivation for shared key: ${header.kdfId}`);
+    }
+    const params = decodeHkdfParams(header.kdfParams);
+    return await deriveSubkey(sharedSecret, params.salt, params.info);
+  });
+  return arrayBufferToBase64(key);
+}
@@ -0,0 +1,118 @@
+// One-time re-encryption of files uploaded before per-purpose subkeys
+// Older uploads encrypted content and metadata with the same key (and, before the
+// chunked format, the same IV). They are re-encrypted in place under HKDF subkeys of
+// the same master key, so existing share links keep working.
+
+import { supabase } from '@/integrations/supabase/client';
+import { decryptFileInWorker, encryptBlobInWorker } from '@/lib/cryptoWorker';
+import { SecureDataManager } from '@/lib/secureDataManager';
+import { signUpload } from '@/lib/fileSignature';
+import { getSigningPublicKey } from '@/lib/identity';
+import { CURRENT_KEY_SCHEME, updateFileListEntry, type EncryptedFileMetadata } from '@/lib/fileManager';
+
+export interface KeyMigrationResult {
+  migrated: number;
+  failed: number;
+}
+
+// Whether a file list entry still needs re-encrypting
+export function needsKeyMigration(file: EncryptedFileMetadata): boolean {
+  return file.keyScheme !== CURRENT_KEY_SCHEME;
+}
+
+// Re-encrypt a single file's storage object and metadata row; returns the plaintext checksum
+async function migrateFile(userId: string, file: EncryptedFileMetadata): Promise<string> {
+  const { data: fileData, error: fileError } = await supabase
+    .from('encrypted_files')
+    .select('storage_path, encrypted_metadata, encrypted_filename')
+    .eq('file_id', file.fileId)
+    .eq('user_id', userId)
+    .single();
+
+  if (fileError) throw fileError;
+
+  const { data: storageData, error: storageError } = await supabase.storage
+    .from('encrypted-files')
+    .download(fileData.storage_path);
+
+  if (storageError) throw storageError;
+
+  const metadataObj = fileData.encrypted_metadata as { encryptedMetadata?: string } | null;
+  const encryptedMetadataStr = metadataObj?.encryptedMetadata || fileData.encrypted_filename;
+  const { file: plaintext, metadata } = await decryptFileInWorker(storageData, encryptedMetadataStr, file.key, file.iv);
+  const signingKey = await getSigningPublicKey(userId);
+
+  // Same master key, new subkeys and nonces; legacy metadata gains a plaintext checksum
+  const { encryptedFile, encryptedMetadata, paddedSize, sha256, ciphertextSha256 } = await encryptBlobInWorker(
+    plaintext,
+    signingKey ? { ...metadata, signingKey } : metadata,
+    file.key,
+    Boolean(metadata.compression)
+  );
+
+  // Signed before anything is replaced: metadata naming a signing key must come with a signature
+  const signature = signingKey ? await signUpload(userId, file.fileId, ciphertextSha256, encryptedMetadata) : null;
+
+  const { error: uploadError } = await supabase.storage
+    .from('encrypted-files')
+    .upload(fileData.storage_path, encryptedFile, {
+      contentType: 'application/octet-stream',
+      cacheControl: '3600',
+      upsert: true
+    });
+
+  if (uploadError) throw uploadError;
+
+  const { error: updateError } = await supabase
+    .from('encrypted_files')
+    .update({
+      encrypted_filename: encryptedMetadata,
+      encrypted_metadata: { encryptedMetadata },
+      file_size: paddedSize,
+      mime_type: null,
+      signature,
+      signing_public_key: signingKey
+    })
+    .eq('file_id', file.fileId)
+    .eq('user_id', userId);
+
+  if (updateError) throw updateError;
+  return sha256;
+}
+
+// Re-encrypt every legacy file owned by the user
+// Progress is saved after each file, so an interrupted run resumes where it stopped
+export async function migrateLegacyFiles(userId: string): Promise<KeyMigrationResult> {
+  const result: KeyMigrationResult = { migrated: 0, failed: 0 };
+  const fileList: EncryptedFileMetadata[] = await SecureDataManager.getDecryptedFileList(userId);
+  const pending = fileList.filter(needsKeyMigration);
+
+  for (const file of pending) {
+    try {
+      const sha256 = await migrateFile(userId, file);
+
+      // Only this entry is patched, in the list as it is now: uploads and share changes may
+      // have added or changed others since it was read. Legacy IVs are no longer needed once
+      // the file carries its own headers.
+      await updateFileListEntry(userId, file.fileId, ({ iv: _legacyIv, ...rest }) => ({
+        ...rest,
+        keyScheme: CURRENT_KEY_SCHEME,
+        sha256
+      }));
+      result.migrated++;
+    } catch (error) {
+      console.error('Key migration failed for file:', file.fileId, error);
+      result.failed++;
+    }
+  }
+
+  if (pending.length > 0) {
+    await SecureDataManager.storeEncryptedAuditLog(userId, {
+      action: 'key_migration',
+      timestamp: new Date().toISOString(),
+      data: result
+    });
+  }
+
+  return result;
+}
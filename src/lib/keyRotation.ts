@@ -0,0 +1,51 @@
+// Vault key rotation, e.g. after a suspected device compromise
+// Replaces the vault master key and re-encrypts the file index and every audit log entry
+// under the new one, along with this device's unfinished uploads. Progress lives server-side (the pending key in user_vaults, the key id
+// on each record), so a rotation cut short by closing the tab is finished on the next unlock.
+
+import { SecureDataManager } from '@/lib/secureDataManager';
+import { resealPendingUploads } from '@/lib/pendingUploads';
+import {
+  verifyVaultPassword,
+  startKeyRotation,
+  completeKeyRotation,
+  hasPendingRotation
+} from '@/lib/vault';
+
+export type RotationProgress = (done: number, total: number) => void;
+
+// Re-encrypt whatever is left under the old key, then switch keys
+async function finishKeyRotation(userId: string, password: string, onProgress?: RotationProgress): Promise<string> {
+  await SecureDataManager.reencryptUserData(userId, onProgress);
+  try {
+    await resealPendingUploads(userId);
+  } catch (error) {
+    // Losing local storage only costs the chance to resume, so it doesn't hold up the rotation
+    console.error('Could not re-seal pending uploads:', error);
+  }
+  const recoveryPhrase = await completeKeyRotation(userId, password);
+
+  await SecureDataManager.storeEncryptedAuditLog(userId, {
+    action: 'key_rotation',
+    timestamp: new Date().toISOString(),
+    data: {}
+  });
+
+  return recoveryPhrase;
+}
+
+// Rotate to a new vault key; returns the new recovery phrase
+export async function rotateVaultKey(userId: string, password: string, onProgress?: RotationProgress): Promise<string> {
+  if (!(await verifyVaultPassword(userId, password))) {
+    throw new Error('Incorrect password');
+  }
+
+  await startKeyRotation(userId);
+  return await finishKeyRotation(userId, password, onProgress);
+}
+
+// Finish a rotation interrupted earlier; returns the new recovery phrase, or null if none was pending
+export async function resumeKeyRotation(userId: string, password: string, onProgress?: RotationProgress): Promise<string | null> {
+  if (!hasPendingRotation()) return null;
+  return await finishKeyRotation(userId, password, onProgress);
+}
@@ -0,0 +1,136 @@
+// Key share links ("k-of-n"): a file's master key split with Shamir secret sharing
+// Each link carries a single share in its fragment, so no one link (or leaked message)
+// exposes the file. Downloaders collect shares until the threshold is met and rebuild the
+// key locally (see shamir.ts).
+// Encoded share: version | threshold | x | set id (4) | key check (4) | share bytes. The set id
+// keeps shares of different splits apart; the key check (a SHA-256 prefix of the key) tells
+// a correct reconstruction from garbage.
+
+import { supabase } from '@/integrations/supabase/client';
+import { arrayBufferToBase64, base64ToArrayBuffer } from '@/lib/encryption';
+import { splitSecret, combineShares } from '@/lib/shamir';
+import { toHex } from '@/lib/sha256';
+import { SecureDataManager } from '@/lib/secureDataManager';
+import type { EncryptedFileMetadata } from '@/lib/fileManager';
+
+const SHARE_VERSION = 1;
+const SET_ID_LENGTH = 4;
+const KEY_CHECK_LENGTH = 4;
+const SHARE_HEADER_LENGTH = 3 + SET_ID_LENGTH + KEY_CHECK_LENGTH;
+
+// Most shares offered when splitting a key
+export const MAX_KEY_SHARES = 10;
+
+export interface KeyShare {
+  threshold: number;
+  x: number;
+  setId: string; // Hex, identifies the split this share belongs to
+  check: Uint8Array;
+  y: Uint8Array;
+}
+
+async function keyCheck(key: Uint8Array): Promise<Uint8Array> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', key));
+  return digest.slice(0, KEY_CHECK_LENGTH);
+}
+
+function encodeShare(share: KeyShare, setIdBytes: Uint8Array): string {
+  const bytes = new Uint8Array(SHARE_HEADER_LENGTH + share.y.length);
+  bytes.set([SHARE_VERSION, share.threshold, share.x], 0);
+  bytes.set(setIdBytes, 3);
+  bytes.set(share.check, 3 + SET_ID_LENGTH);
+  bytes.set(share.y, SHARE_HEADER_LENGTH);
+  return arrayBufferToBase64(bytes);
+}
+
+// Decode a share from its encoded form, a share link, or a link fragment
+export function parseKeyShare(input: string): KeyShare {
+  const trimmed = input.trim();
+  const fragment = trimmed.includes('#') ? trimmed.slice(trimmed.indexOf('#') + 1) : trimmed;
+  const encoded = fragment.startsWith('share=')
+    ? decodeURIComponent(new URLSearchParams(fragment).get('share') ?? '')
+    : fragment;
+
+  let bytes: Uint8Array;
+  try {
+    bytes = new Uint8Array(base64ToArrayBuffer(encoded));
+  } catch (error) {
+    throw new Error('Not a valid key share');
+  }
+  if (bytes.length <= SHARE_HEADER_LENGTH || bytes[0] !== SHARE_VERSION || bytes[1] < 2 || bytes[2] === 0) {
+    throw new Error('Not a valid key share');
+  }
+
+  return {
+    threshold: bytes[1],
+    x: bytes[2],
+    setId: toHex(bytes.slice(3, 3 + SET_ID_LENGTH)),
+    check: bytes.slice(3 + SET_ID_LENGTH, SHARE_HEADER_LENGTH),
+    y: bytes.slice(SHARE_HEADER_LENGTH)
+  };
+}
+
+// File id of a pasted share link, if the input is a link at all
+export function shareLinkFileId(input: string): string | undefined {
+  const match = input.trim().match(/\/f\/([^/#?]+)/);
+  return match ? decodeURIComponent(match[1]) : undefined;
+}
+
+// Share link for one encoded share
+export function generateShareLinkUrl(fileId: string, encodedShare: string): string {
+  return `${window.location.origin}/f/${fileId}#share=${encodeURIComponent(encodedShare)}`;
+}
+
+// Split a file's master key into count share links, any threshold of which open the file
+export async function createKeyShareLinks(
+  file: EncryptedFileMetadata,
+  count: number,
+  threshold: number
+): Promise<string[]> {
+  if (file.iv) {
+    throw new Error('This file uses a legacy format and cannot be split into key shares');
+  }
+  if (count > MAX_KEY_SHARES) {
+    throw new Error(`At most ${MAX_KEY_SHARES} shares are supported`);
+  }
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) throw new Error('User not authenticated');
+
+  const key = new Uint8Array(base64ToArrayBuffer(file.key));
+  const check = await keyCheck(key);
+  const setIdBytes = crypto.getRandomValues(new Uint8Array(SET_ID_LENGTH));
+  const setId = toHex(setIdBytes);
+
+  const links = splitSecret(key, count, threshold).map(({ x, y }) =>
+    generateShareLinkUrl(file.fileId, encodeShare({ threshold, x, setId, check, y }, setIdBytes))
+  );
+
+  await SecureDataManager.storeEncryptedAuditLog(user.id, {
+    action: 'share_split',
+    timestamp: new Date().toISOString(),
+    data: { fileId: file.fileId, shares: count, threshold }
+  });
+
+  return links;
+}
+
+// Rebuild a file's master key (base64) from collected shares of one split
+export async function combineKeyShares(shares: KeyShare[]): Promise<string> {
+  if (shares.length === 0) throw new Error('No key shares collected');
+
+  const { threshold, setId } = shares[0];
+  if (shares.some(share => share.setId !== setId || share.threshold !== threshold)) {
+    throw new Error('These shares belong to different links');
+  }
+  if (shares.length < threshold) {
+    throw new Error(`${threshold - shares.length} more share${threshold - shares.length === 1 ? '' : 's'} needed`);
+  }
+
+  const key = combineShares(shares.slice(0, threshold).map(({ x, y }) => ({ x, y })));
+  const check = await keyCheck(key);
+  if (check.some((byte, i) => byte !== shares[0].check[i])) {
+    throw new Error('The key shares do not fit together - one of them may be damaged');
+  }
+  return arrayBufferToBase64(key);
+}
@@ -0,0 +1,68 @@
+// Length padding, so the server only learns a size bucket instead of the exact plaintext size
+// File content is padded to its Padmé length (Nikitin et al., "Reducing Metadata Leakage from
+// Encrypted Files and Communication with PURBs", 2019): at most O(log log n) bits of the size
+// leak, for at most ~12% overhead. The real size is kept in the encrypted metadata and the
+// padding is cut off again after decryption.
+
+import { maxEncryptedLength } from '@/lib/streamCipher';
+
+// Every file smaller than this pads to the same size
+const MIN_PADDED_SIZE = 4096;
+
+// The encrypted-files bucket limit, which the whole encrypted container has to fit in
+const BUCKET_SIZE_LIMIT = 2 * 1024 * 1024 * 1024;
+
+// Never pad past what still fits in the bucket once encrypted; also the largest file accepted
+const CONTAINER_OVERHEAD = maxEncryptedLength(BUCKET_SIZE_LIMIT) - BUCKET_SIZE_LIMIT;
+export const MAX_PADDED_SIZE = BUCKET_SIZE_LIMIT - CONTAINER_OVERHEAD;
+
+// Encrypted metadata is padded to a multiple of this, hiding the file name length
+const METADATA_BLOCK = 256;
+
+const ZERO_CHUNK = new Uint8Array(1024 * 1024);
+
+// Padded length of a file of the given size
+export function paddedLength(size: number): number {
+  if (size <= MIN_PADDED_SIZE) return MIN_PADDED_SIZE;
+
+  const exponent = Math.floor(Math.log2(size));
+  const mantissaBits = Math.floor(Math.log2(exponent)) + 1;
+  const step = Math.pow(2, exponent - mantissaBits);
+  const padded = Math.ceil(size / step) * step;
+
+  return Math.min(padded, Math.max(size, MAX_PADDED_SIZE));
+}
+
+// Append zero bytes to a blob up to its padded length, without allocating the padding in one piece
+export function padBlob(source: Blob): Blob {
+  let remaining = paddedLength(source.size) - source.size;
+  const parts: BlobPart[] = [source];
+  while (remaining > 0) {
+    const size = Math.min(remaining, ZERO_CHUNK.length);
+    parts.push(size === ZERO_CHUNK.length ? ZERO_CHUNK : ZERO_CHUNK.subarray(0, size));
+    remaining -= size;
+  }
+  return new Blob(parts, { type: source.type });
+}
+
+// Pass-through stream that keeps the first size bytes and drops the padding after them
+// Padding bytes are still read, so streams upstream (decryption, hashing) see the whole input.
+export function createUnpadStream(size: number): TransformStream<Uint8Array, Uint8Array> {
+  let remaining = size;
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(bytes, controller) {
+      if (remaining <= 0) return;
+      const kept = bytes.length > remaining ? bytes.subarray(0, remaining) : bytes;
+      remaining -= kept.length;
+      controller.enqueue(kept);
+    }
+  });
+}
+
+// Pad encoded JSON with trailing spaces (still valid JSON) to a multiple of the metadata block
+export function padJson(json: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(Math.ceil(json.length / METADATA_BLOCK) * METADATA_BLOCK);
+  padded.fill(0x20);
+  padded.set(json, 0);
+  return padded;
+}
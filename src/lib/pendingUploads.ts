@@ -0,0 +1,171 @@
+// Uploads that were encrypted but not finished yet, kept in IndexedDB so they survive a reload
+// The ciphertext is stored as-is; the file key, name and upload settings are sealed under the
+// vault key (see secureDataManager.ts), so nothing readable is left on the device. A key
+// rotation re-seals the records on the device that rotates; records that can't be opened (on
+// other devices, or after a vault reset) are left alone rather than thrown away.
+
+import { SecureDataManager, type EncryptedData } from '@/lib/secureDataManager';
+import { isVaultUnlocked, getVaultKeyId } from '@/lib/vault';
+import type { FileMetadata } from '@/lib/encryption';
+
+const DB_NAME = 'shard-cipher';
+const DB_VERSION = 1;
+const STORE = 'pending_uploads';
+const DATA_TYPE = 'pending_upload';
+
+// Everything needed to finish an upload once its ciphertext is stored
+export interface PendingUploadDetails {
+  metadata: FileMetadata;
+  encryptedMetadata: string;
+  key: string;
+  sha256: string;
+  paddedSize: number;
+  ciphertextSha256: string; // Base64
+  expiryDays?: number;
+  maxDownloads?: number;
+  sharePassword?: string;
+}
+
+export interface PendingUpload {
+  fileId: string;
+  userId: string;
+  createdAt: number;
+  encryptedFile: Blob;
+  uploadUrl?: string; // tus upload URL, once the server has created the upload
+  details: PendingUploadDetails;
+}
+
+export interface PendingUploadSummary {
+  fileId: string;
+  name: string;
+  size: number;
+  createdAt: number;
+}
+
+interface StoredPendingUpload extends Omit<PendingUpload, 'details'> {
+  sealed: EncryptedData;
+}
+
+// Uploads running in this tab, which must not be resumed a second time
+const activeUploads = new Set<string>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'fileId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Could not open local upload storage'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Run one request against the store, resolving with its result
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return await new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('Local upload storage failed'));
+  });
+}
+
+async function unseal(stored: StoredPendingUpload): Promise<PendingUpload> {
+  const { sealed, ...rest } = stored;
+  const details: PendingUploadDetails = await SecureDataManager.decryptData(sealed, stored.userId, DATA_TYPE);
+  return { ...rest, details };
+}
+
+// Persist an upload before its ciphertext is sent
+export async function savePendingUpload(upload: PendingUpload): Promise<void> {
+  const { details, ...rest } = upload;
+  const stored: StoredPendingUpload = {
+    ...rest,
+    sealed: await SecureDataManager.encryptData(details, upload.userId, DATA_TYPE)
+  };
+  await withStore('readwrite', store => store.put(stored));
+}
+
+// Remember the tus upload URL, so a resume continues instead of starting over
+export async function setPendingUploadUrl(fileId: string, uploadUrl: string): Promise<void> {
+  const stored = await withStore<StoredPendingUpload | undefined>('readonly', store => store.get(fileId));
+  if (!stored) return;
+  await withStore('readwrite', store => store.put({ ...stored, uploadUrl }));
+}
+
+export async function loadPendingUpload(fileId: string): Promise<PendingUpload | null> {
+  const stored = await withStore<StoredPendingUpload | undefined>('readonly', store => store.get(fileId));
+  return stored ? await unseal(stored) : null;
+}
+
+export async function hasPendingUpload(fileId: string): Promise<boolean> {
+  return (await withStore('readonly', store => store.count(fileId))) > 0;
+}
+
+export async function deletePendingUpload(fileId: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(fileId));
+}
+
+// Unfinished uploads of a user that aren't running in this tab
+export async function listPendingUploads(userId: string): Promise<PendingUploadSummary[]> {
+  if (!isVaultUnlocked(userId)) return [];
+
+  const stored = await withStore<StoredPendingUpload[]>('readonly', store => store.getAll());
+  const summaries: PendingUploadSummary[] = [];
+
+  for (const record of stored) {
+    if (record.userId !== userId || activeUploads.has(record.fileId)) continue;
+    try {
+      const { details } = await unseal(record);
+      summaries.push({
+        fileId: record.fileId,
+        name: details.metadata.relativePath ?? details.metadata.originalName,
+        size: details.metadata.size,
+        createdAt: record.createdAt
+      });
+    } catch (error) {
+      console.error('Skipping unreadable pending upload:', error);
+    }
+  }
+
+  return summaries.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// Re-seal a user's unfinished uploads under the current vault key, during a key rotation
+export async function resealPendingUploads(userId: string): Promise<void> {
+  const currentKeyId = getVaultKeyId();
+  const stored = await withStore<StoredPendingUpload[]>('readonly', store => store.getAll());
+
+  for (const record of stored) {
+    if (record.userId !== userId || record.sealed.keyId === currentKeyId) continue;
+    try {
+      const { details } = await unseal(record);
+      const resealed: StoredPendingUpload = {
+        ...record,
+        sealed: await SecureDataManager.encryptData(details, userId, DATA_TYPE)
+      };
+      await withStore('readwrite', store => store.put(resealed));
+    } catch (error) {
+      console.error('Could not re-seal pending upload:', record.fileId, error);
+    }
+  }
+}
+
+// Mark an upload as running in this tab; false if it already is
+export function claimPendingUpload(fileId: string): boolean {
+  if (activeUploads.has(fileId)) return false;
+  activeUploads.add(fileId);
+  return true;
+}
+
+export function releasePendingUpload(fileId: string): void {
+  activeUploads.delete(fileId);
+}
@@ -0,0 +1,92 @@
+// Which decrypted files can be previewed in the page, and how
+// Only formats on these lists are previewed, and the content is always re-labelled with the
+// MIME type of the list entry instead of the one in the metadata, so a file named like an image
+// can never be interpreted as a page. Media go to <img>/<audio>/<video>, PDFs to the browser's
+// own viewer in a sandboxed frame and text is rendered as text nodes. Active formats (HTML, SVG,
+// XML) only ever get their source shown, never rendered.
+
+export type PreviewKind = 'image' | 'pdf' | 'text' | 'audio' | 'video';
+
+export interface PreviewFormat {
+  kind: PreviewKind;
+  mimeType: string; // Type the content is shown as
+  language?: string; // Highlighting for text, see syntaxHighlight.ts
+}
+
+// Decrypted previews are held in memory, unlike streamed downloads
+export const MAX_PREVIEW_SIZE = 256 * 1024 * 1024;
+
+// Text beyond this is cut off in the preview; highlighting huge files stalls the page
+export const MAX_TEXT_PREVIEW_LENGTH = 512 * 1024;
+
+const MEDIA_FORMATS: Record<string, PreviewFormat> = {
+  png: { kind: 'image', mimeType: 'image/png' },
+  jpg: { kind: 'image', mimeType: 'image/jpeg' },
+  jpeg: { kind: 'image', mimeType: 'image/jpeg' },
+  gif: { kind: 'image', mimeType: 'image/gif' },
+  webp: { kind: 'image', mimeType: 'image/webp' },
+  avif: { kind: 'image', mimeType: 'image/avif' },
+  bmp: { kind: 'image', mimeType: 'image/bmp' },
+  ico: { kind: 'image', mimeType: 'image/x-icon' },
+  pdf: { kind: 'pdf', mimeType: 'application/pdf' },
+  mp3: { kind: 'audio', mimeType: 'audio/mpeg' },
+  wav: { kind: 'audio', mimeType: 'audio/wav' },
+  ogg: { kind: 'audio', mimeType: 'audio/ogg' },
+  oga: { kind: 'audio', mimeType: 'audio/ogg' },
+  opus: { kind: 'audio', mimeType: 'audio/ogg' },
+  m4a: { kind: 'audio', mimeType: 'audio/mp4' },
+  aac: { kind: 'audio', mimeType: 'audio/aac' },
+  flac: { kind: 'audio', mimeType: 'audio/flac' },
+  mp4: { kind: 'video', mimeType: 'video/mp4' },
+  m4v: { kind: 'video', mimeType: 'video/mp4' },
+  webm: { kind: 'video', mimeType: 'video/webm' },
+  ogv: { kind: 'video', mimeType: 'video/ogg' },
+  mov: { kind: 'video', mimeType: 'video/quicktime' }
+};
+
+// Text extensions and the language they are highlighted as
+const TEXT_LANGUAGES: Record<string, string> = {
+  txt: 'plain', log: 'plain', text: 'plain', csv: 'plain', tsv: 'plain', readme: 'plain', license: 'plain',
+  md: 'markdown', markdown: 'markdown',
+  js: 'c', jsx: 'c', mjs: 'c', cjs: 'c', ts: 'c', tsx: 'c',
+  java: 'c', kt: 'c', scala: 'c', c: 'c', h: 'c', cpp: 'c', cc: 'c', hpp: 'c',
+  cs: 'c', go: 'c', rs: 'c', swift: 'c', dart: 'c', php: 'c',
+  css: 'css', scss: 'css', less: 'css',
+  json: 'json', jsonc: 'json',
+  py: 'hash', rb: 'hash', sh: 'hash', bash: 'hash', zsh: 'hash', ps1: 'hash', pl: 'hash', r: 'hash',
+  yml: 'hash', yaml: 'hash', toml: 'hash', ini: 'hash', conf: 'hash', cfg: 'hash', env: 'hash',
+  dockerfile: 'hash', makefile: 'hash',
+  sql: 'sql',
+  html: 'markup', htm: 'markup', xhtml: 'markup', xml: 'markup', svg: 'markup', vue: 'markup'
+};
+
+// MIME types that are text even without a known extension
+const TEXT_MIME_LANGUAGES: Record<string, string> = {
+  'text/plain': 'plain',
+  'text/markdown': 'markdown',
+  'text/csv': 'plain',
+  'application/json': 'json',
+  'text/html': 'markup',
+  'image/svg+xml': 'markup',
+  'application/xml': 'markup',
+  'text/xml': 'markup'
+};
+
+// How a file can be previewed, or null if it can't
+export function previewFormat(name: string, type: string): PreviewFormat | null {
+  const base = name.split('/').pop()?.toLowerCase() ?? '';
+  const extension = base.includes('.') ? base.split('.').pop() ?? '' : base;
+
+  const media = MEDIA_FORMATS[extension];
+  if (media) return media;
+
+  const language = TEXT_LANGUAGES[extension] ?? TEXT_MIME_LANGUAGES[type.toLowerCase()];
+  if (language) return { kind: 'text', mimeType: 'text/plain', language };
+
+  return null;
+}
+
+// Whether a file of this name, type and size gets a preview
+export function canPreview(name: string, type: string, size: number): boolean {
+  return size <= MAX_PREVIEW_SIZE && previewFormat(name, type) !== null;
+}
@@ -0,0 +1,44 @@
+// Recovery phrases: 128 random bits written as 16 words plus one checksum word
+// The phrase is the only way back into a vault after a forgotten password, so it is shown
+// once when the vault is set up and never stored anywhere in readable form.
+
+import { RECOVERY_WORDLIST } from '@/lib/recoveryWordlist';
+
+export const RECOVERY_ENTROPY_LENGTH = 16;
+export const RECOVERY_PHRASE_WORDS = RECOVERY_ENTROPY_LENGTH + 1;
+
+// First byte of SHA-256 over the entropy, encoded as the last word
+async function checksumByte(entropy: Uint8Array): Promise<number> {
+  const digest = await crypto.subtle.digest('SHA-256', entropy);
+  return new Uint8Array(digest)[0];
+}
+
+// Generate a new recovery phrase and the entropy it encodes
+export async function generateRecoveryPhrase(): Promise<{ phrase: string; entropy: Uint8Array }> {
+  const entropy = crypto.getRandomValues(new Uint8Array(RECOVERY_ENTROPY_LENGTH));
+  const words = Array.from(entropy, byte => RECOVERY_WORDLIST[byte]);
+  words.push(RECOVERY_WORDLIST[await checksumByte(entropy)]);
+  return { phrase: words.join(' '), entropy };
+}
+
+// Turn a phrase typed by the user back into entropy, rejecting typos via the checksum
+export async function parseRecoveryPhrase(phrase: string): Promise<Uint8Array> {
+  const words = phrase.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length !== RECOVERY_PHRASE_WORDS) {
+    throw new Error(`Recovery phrase must be ${RECOVERY_PHRASE_WORDS} words (found ${words.length})`);
+  }
+
+  const bytes = words.map(word => {
+    const index = RECOVERY_WORDLIST.indexOf(word);
+    if (index === -1) {
+      throw new Error(`"${word}" is not a recovery phrase word - check the spelling`);
+    }
+    return index;
+  });
+
+  const entropy = new Uint8Array(bytes.slice(0, RECOVERY_ENTROPY_LENGTH));
+  if (bytes[RECOVERY_ENTROPY_LENGTH] !== await checksumByte(entropy)) {
+    throw new Error('Recovery phrase checksum does not match - check the words and their order');
+  }
+  return entropy;
+}
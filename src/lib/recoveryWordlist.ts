@@ -0,0 +1,33 @@
+// Wordlist for recovery phrases: 256 words, so each word encodes exactly one byte
+// Sorted, lowercase and unambiguous when read aloud or written by hand. Never reorder or edit
+// this list - existing recovery phrases depend on each word's position.
+
+export const RECOVERY_WORDLIST: readonly string[] = [
+  'acorn', 'actor', 'adult', 'agent', 'alarm', 'album', 'alley', 'amber', 'angle', 'ankle',
+  'apple', 'apron', 'arena', 'armor', 'arrow', 'atlas', 'attic', 'audio', 'autumn', 'badge',
+  'bagel', 'baker', 'bamboo', 'banjo', 'barn', 'basil', 'basin', 'beach', 'beard', 'berry',
+  'bison', 'blade', 'blanket', 'bloom', 'board', 'boat', 'bonus', 'boot', 'bottle', 'brain',
+  'brick', 'bridge', 'broom', 'bubble', 'bucket', 'buffalo', 'butter', 'cabin', 'cable', 'cactus',
+  'camel', 'candle', 'canoe', 'canyon', 'carbon', 'carpet', 'castle', 'cedar', 'chalk', 'cherry',
+  'chess', 'cider', 'circus', 'citrus', 'clock', 'cloud', 'clover', 'coast', 'cobra', 'coffee',
+  'comet', 'copper', 'coral', 'cotton', 'cougar', 'crane', 'crayon', 'cricket', 'crystal',
+  'curtain', 'dagger', 'daisy', 'desert', 'diamond', 'dinner', 'dolphin', 'donkey', 'dragon',
+  'drum', 'eagle', 'earth', 'echo', 'eclipse', 'elbow', 'ember', 'engine', 'falcon', 'feather',
+  'fence', 'fiddle', 'finch', 'flame', 'flute', 'forest', 'fossil', 'fountain', 'galaxy', 'garden',
+  'garlic', 'gecko', 'ginger', 'glacier', 'globe', 'goose', 'granite', 'grape', 'gravel', 'guitar',
+  'hammer', 'harbor', 'harvest', 'hazel', 'helmet', 'heron', 'hollow', 'honey', 'horizon',
+  'hornet', 'iceberg', 'igloo', 'island', 'ivory', 'jacket', 'jaguar', 'jasmine', 'jelly', 'jewel',
+  'jungle', 'kayak', 'kernel', 'kettle', 'kitten', 'koala', 'ladder', 'lagoon', 'lantern', 'lemon',
+  'lentil', 'lilac', 'lizard', 'llama', 'lobster', 'locket', 'lotus', 'magnet', 'mango', 'maple',
+  'marble', 'meadow', 'melon', 'meteor', 'mirror', 'monkey', 'mosaic', 'motor', 'muffin', 'nectar',
+  'needle', 'nest', 'nickel', 'noodle', 'nutmeg', 'oasis', 'ocean', 'olive', 'onion', 'orange',
+  'orbit', 'orchid', 'otter', 'oyster', 'paddle', 'panda', 'paper', 'parrot', 'peach', 'pebble',
+  'pencil', 'pepper', 'piano', 'pigeon', 'pillow', 'planet', 'plum', 'pocket', 'pony', 'poppy',
+  'puzzle', 'quartz', 'quill', 'rabbit', 'radar', 'radish', 'raven', 'reef', 'ribbon', 'river',
+  'robin', 'rocket', 'saddle', 'salmon', 'sandal', 'satin', 'scarf', 'shadow', 'shell', 'silver',
+  'sketch', 'sparrow', 'spider', 'spruce', 'squid', 'stable', 'statue', 'storm', 'sugar', 'summit',
+  'sunset', 'swan', 'tablet', 'tiger', 'timber', 'tomato', 'topaz', 'tractor', 'trumpet', 'tulip',
+  'tunnel', 'turtle', 'umbrella', 'valley', 'velvet', 'violin', 'volcano', 'wagon', 'walnut',
+  'walrus', 'wheat', 'whistle', 'willow', 'window', 'winter', 'wizard', 'yogurt', 'zebra',
+  'zipper'
+];
@@ -0,0 +1,163 @@
+// Saving a byte stream to disk while it is still being produced, so large downloads never sit
+// in memory. Chromium gets the File System Access API; other browsers get the stream served as
+// an ordinary download by a service worker (public/download-sw.js). Where neither is available
+// the stream is collected into a Blob and saved from that.
+
+import { collectStream } from '@/lib/streamCipher';
+import { cancelledError, isCancelled } from '@/lib/cryptoWorker';
+
+const DOWNLOAD_WORKER_URL = '/download-sw.js';
+const DOWNLOAD_SCOPE = '/__download/';
+
+// How long the service worker gets to pick up a download before it counts as failed
+const DOWNLOAD_START_TIMEOUT_MS = 10000;
+
+// Where a download is written; write resolves once the whole stream is on disk
+export interface SaveTarget {
+  write(stream: ReadableStream<Uint8Array>, signal?: AbortSignal): Promise<void>;
+  discard(): Promise<void>; // Give up on a target that will never be written
+}
+
+// showSaveFilePicker isn't in TypeScript's DOM library yet
+type ShowSaveFilePicker = (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+
+// Save a Blob through a temporary link
+export function saveBlob(blob: Blob, name: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// Write to a file the user picked; on failure the writable is aborted, which discards the file
+async function fileSystemTarget(name: string): Promise<SaveTarget | null> {
+  const showSaveFilePicker = (window as Window & { showSaveFilePicker?: ShowSaveFilePicker }).showSaveFilePicker;
+  if (!showSaveFilePicker) return null;
+
+  let handle: FileSystemFileHandle;
+  try {
+    handle = await showSaveFilePicker({ suggestedName: name });
+  } catch (error) {
+    // Closing the picker cancels; anything else (e.g. no user activation left) falls back
+    if (isCancelled(error)) throw cancelledError();
+    console.error('Save picker unavailable:', error);
+    return null;
+  }
+
+  const writable = await handle.createWritable();
+  return {
+    write: (stream, signal) => stream.pipeTo(writable, { signal }),
+    discard: () => writable.abort()
+  };
+}
+
+// The registration's worker once it is active
+function activeWorker(registration: ServiceWorkerRegistration): Promise<ServiceWorker> {
+  const worker = registration.active ?? registration.waiting ?? registration.installing;
+  if (!worker) return Promise.reject(new Error('Download worker did not install'));
+  if (worker.state === 'activated') return Promise.resolve(worker);
+
+  return new Promise((resolve, reject) => {
+    worker.addEventListener('statechange', () => {
+      if (worker.state === 'activated') resolve(worker);
+      if (worker.state === 'redundant') reject(new Error('Download worker did not install'));
+    });
+  });
+}
+
+// Hand the stream to the download worker, which answers a hidden iframe's request with it
+// The worker pulls one chunk at a time over a MessageChannel, so the browser's download
+// manager sets the pace.
+async function serviceWorkerTarget(name: string, size: number): Promise<SaveTarget | null> {
+  if (!('serviceWorker' in navigator)) return null;
+
+  let worker: ServiceWorker;
+  try {
+    const registration = await navigator.serviceWorker.register(DOWNLOAD_WORKER_URL, { scope: DOWNLOAD_SCOPE });
+    worker = await activeWorker(registration);
+  } catch (error) {
+    console.error('Download worker unavailable:', error);
+    return null;
+  }
+
+  return {
+    write: (stream, signal) => new Promise<void>((resolve, reject) => {
+      const id = crypto.randomUUID();
+      const channel = new MessageChannel();
+      const reader = stream.getReader();
+      const iframe = document.createElement('iframe');
+
+      const finish = (error?: unknown) => {
+        clearTimeout(startTimer);
+        signal?.removeEventListener('abort', onAbort);
+        channel.port1.close();
+        setTimeout(() => iframe.remove(), 1000);
+        if (error) reject(error);
+        else resolve();
+      };
+      const onAbort = () => {
+        channel.port1.postMessage({ type: 'error', message: 'Cancelled' });
+        reader.cancel().catch(() => undefined);
+        finish(cancelledError());
+      };
+      const startTimer = setTimeout(() => {
+        reader.cancel().catch(() => undefined);
+        finish(new Error('The download could not be started'));
+      }, DOWNLOAD_START_TIMEOUT_MS);
+
+      channel.port1.onmessage = async (event: MessageEvent<{ type: 'pull' | 'cancel' }>) => {
+        clearTimeout(startTimer);
+        if (event.data.type === 'cancel') {
+          reader.cancel().catch(() => undefined);
+          finish(cancelledError());
+          return;
+        }
+
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            channel.port1.postMessage({ type: 'end' });
+            finish();
+          } else {
+            channel.port1.postMessage({ type: 'chunk', chunk: value });
+          }
+        } catch (error) {
+          channel.port1.postMessage({ type: 'error', message: (error as Error).message });
+          finish(error);
+        }
+      };
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort);
+
+      worker.postMessage({ type: 'download', id, name, size }, [channel.port2]);
+      iframe.hidden = true;
+      iframe.src = `${DOWNLOAD_SCOPE}${id}`;
+      document.body.appendChild(iframe);
+    }),
+    discard: async () => undefined
+  };
+}
+
+// Collect the stream and save it in one go, for browsers that can't stream to disk
+function blobTarget(name: string, type: string): SaveTarget {
+  return {
+    write: async (stream) => saveBlob(await collectStream(stream, type), name),
+    discard: async () => undefined
+  };
+}
+
+// Pick where a download goes; call it straight from the click that started the download,
+// since the save picker needs the user's activation
+export async function openSaveTarget(name: string, type: string, size: number): Promise<SaveTarget> {
+  return (await fileSystemTarget(name))
+    ?? (await serviceWorkerTarget(name, size))
+    ?? blobTarget(name, type);
+}
@@ -0,0 +1,52 @@
+// Secret notes: pasted text shared like a file, but read in the browser at /s/:fileId
+// A note is an ordinary encrypted upload whose encrypted metadata is marked kind 'note', so
+// it gets the same padding, expiry and download limits; the server can't tell it from a file.
+// Notes default to burn after reading (a single view).
+
+import {
+  uploadEncryptedBlob,
+  fetchDecryptedFile,
+  type FileTransferOptions,
+  type UploadResult
+} from '@/lib/fileManager';
+
+// Longest note accepted, in characters
+export const MAX_NOTE_LENGTH = 100000;
+
+export interface SecretNote {
+  text: string;
+  createdAt: number;
+}
+
+// Encrypt and upload a note; the returned URL opens the note view page
+export async function createSecretNote(
+  text: string,
+  expiryDays?: number,
+  maxViews: number | undefined = 1,
+  options?: FileTransferOptions
+): Promise<UploadResult> {
+  if (!text.trim()) throw new Error('The note is empty');
+  if (text.length > MAX_NOTE_LENGTH) {
+    throw new Error(`Notes can be at most ${MAX_NOTE_LENGTH.toLocaleString()} characters`);
+  }
+
+  const content = new Blob([text], { type: 'text/plain;charset=utf-8' });
+  const now = Date.now();
+  return await uploadEncryptedBlob(content, {
+    originalName: 'Secret note.txt',
+    size: content.size,
+    type: content.type,
+    lastModified: now,
+    encryptedAt: now,
+    kind: 'note'
+  }, expiryDays, maxViews, undefined, options);
+}
+
+// Fetch and decrypt a note; counts as one view
+export async function readSecretNote(fileId: string, key: string): Promise<SecretNote> {
+  const { file, metadata } = await fetchDecryptedFile(fileId, key);
+  if (metadata.kind !== 'note') {
+    throw new Error('This link is not a secret note');
+  }
+  return { text: await file.text(), createdAt: metadata.encryptedAt };
+}
@@ -3,11 +3,13 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { generateSalt, generateIV, deriveKeyFromPassword, arrayBufferToBase64, base64ToArrayBuffer } from '@/lib/encryption';
+import { deriveVaultKey, getVaultKeyId, hasVaultKey } from '@/lib/vault';
 
 export interface EncryptedData {
   encryptedContent: string;
-  salt: string;
+  salt: string; // HKDF salt for vault records, the data type for legacy records
   iv: string;
+  keyId?: string; // Vault key the record is encrypted under, unset for legacy records
 }
 
 export interface AuditLogEntry {
@@ -17,11 +19,16 @@ export interface AuditLogEntry {
   userAgent?: string;
 }
 
+// Audit log types written in the clear by the server, which can't encrypt under the vault key
+const SERVER_LOG_TYPES = new Set(['purge']);
+
 // Master encryption service for all user data
 export class SecureDataManager {
   private static ITERATIONS = 100000; // PBKDF2 iterations
+  // Tail of each user's queue of file list writes (see updateFileList)
+  private static fileListWrites = new Map<string, Promise<void>>();
   
-  // Derive encryption key from user's authentication
+  // Derive the legacy key from the user ID; only used to read records written before vaults
   private static async deriveUserKey(userId: string, dataType: string): Promise<CryptoKey> {
     // Use user ID + data type as password base for consistent key derivation
     const keyMaterial = `${userId}_${dataType}_encryption_key_v1`;
@@ -49,9 +56,16 @@ export class SecureDataManager {
     );
   }
 
-  // Encrypt any data before sending to backend
+  // HKDF info label for a vault subkey
+  private static vaultKeyInfo(dataType: string): string {
+    return `shard-cipher/vault/${dataType}/v1`;
+  }
+
+  // Encrypt any data before sending to backend, under a subkey of the unlocked vault key
   static async encryptData(data: any, userId: string, dataType: string): Promise<EncryptedData> {
-    const key = await this.deriveUserKey(userId, dataType);
+    const salt = generateSalt();
+    const keyId = getVaultKeyId();
+    const key = await deriveVaultKey(this.vaultKeyInfo(dataType), salt);
     const iv = generateIV();
     
     const jsonString = JSON.stringify(data);
@@ -65,14 +79,21 @@ export class SecureDataManager {
     
     return {
       encryptedContent: arrayBufferToBase64(encryptedBuffer),
-      salt: arrayBufferToBase64(new TextEncoder().encode(dataType)), // Use data type as salt identifier
-      iv: arrayBufferToBase64(iv)
+      salt: arrayBufferToBase64(salt),
+      iv: arrayBufferToBase64(iv),
+      keyId
     };
   }
 
-  // Decrypt data received from backend
+  // Decrypt data received from backend (vault records, or legacy userId-derived records)
   static async decryptData(encryptedData: EncryptedData, userId: string, dataType: string): Promise<any> {
-    const key = await this.deriveUserKey(userId, dataType);
+    let key: CryptoKey;
+    if (encryptedData.keyId) {
+      const salt = new Uint8Array(base64ToArrayBuffer(encryptedData.salt));
+      key = await deriveVaultKey(this.vaultKeyInfo(dataType), salt, encryptedData.keyId);
+    } else {
+      key = await this.deriveUserKey(userId, dataType);
+    }
     const iv = new Uint8Array(base64ToArrayBuffer(encryptedData.iv));
     const encrypted = base64ToArrayBuffer(encryptedData.encryptedContent);
     
@@ -94,14 +115,12 @@ export class SecureDataManager {
   }
 
   // Decrypt file list after retrieving
+  // Throws rather than returning an empty list: callers write the list back, and an empty one
+  // saved over a list under another vault key (say, after a rotation finished in another tab)
+  // would lose every file key in it
   static async decryptFileList(encryptedList: string, userId: string): Promise<any[]> {
-    try {
-      const encrypted: EncryptedData = JSON.parse(encryptedList);
-      return await this.decryptData(encrypted, userId, 'file_list');
-    } catch (error) {
-      console.error('Error decrypting file list:', error);
-      return [];
-    }
+    const encrypted: EncryptedData = JSON.parse(encryptedList);
+    return await this.decryptData(encrypted, userId, 'file_list');
   }
 
   // Encrypt audit log before storing
@@ -121,8 +140,36 @@ export class SecureDataManager {
     }
   }
 
+  // Run a user's file list writes one at a time, in the order they were asked for
+  private static queueFileListWrite(userId: string, write: () => Promise<void>): Promise<void> {
+    const queued = (this.fileListWrites.get(userId) ?? Promise.resolve()).then(write);
+    // A failed write doesn't hold up the ones behind it
+    const tail = queued.catch(() => undefined);
+    this.fileListWrites.set(userId, tail);
+    tail.then(() => {
+      if (this.fileListWrites.get(userId) === tail) this.fileListWrites.delete(userId);
+    });
+    return queued;
+  }
+
+  // Change the file list, reading it inside the write queue so concurrent changes aren't lost
+  // Uploads finish in parallel, and each adds an entry holding the only stored copy of its file
+  // key. modify returns null to leave the list as it is.
+  static async updateFileList<T>(userId: string, modify: (fileList: T[]) => T[] | null): Promise<void> {
+    await this.queueFileListWrite(userId, async () => {
+      const updated = modify(await this.getDecryptedFileList(userId));
+      if (updated) await this.writeFileList(userId, updated);
+    });
+  }
+
+  // Replace the file list without reading it; only for a list that can't be read any more,
+  // such as after a vault reset. Everything else goes through updateFileList.
+  static async storeEncryptedFileList(userId: string, fileList: unknown[]): Promise<void> {
+    await this.queueFileListWrite(userId, () => this.writeFileList(userId, fileList));
+  }
+
   // Store encrypted file list
-  static async storeEncryptedFileList(userId: string, fileList: any[]): Promise<void> {
+  private static async writeFileList(userId: string, fileList: unknown[]): Promise<void> {
     const encryptedList = await this.encryptFileList(fileList, userId);
     
     const { error } = await supabase
@@ -139,7 +186,7 @@ export class SecureDataManager {
     if (error) throw error;
   }
 
-  // Retrieve and decrypt file list
+  // Retrieve and decrypt file list; throws if it can't be decrypted with the unlocked vault keys
   static async getDecryptedFileList(userId: string): Promise<any[]> {
     const { data, error } = await supabase
       .from('user_file_index')
@@ -177,7 +224,7 @@ export class SecureDataManager {
   static async getDecryptedAuditLogs(userId: string, limit: number = 50): Promise<AuditLogEntry[]> {
     const { data, error } = await supabase
       .from('encrypted_audit_logs')
-      .select('encrypted_log_entry, created_at')
+      .select('encrypted_log_entry, log_type, created_at')
       .eq('user_id', userId)
       .order('created_at', { ascending: false })
       .limit(limit);
@@ -189,7 +236,9 @@ export class SecureDataManager {
     
     const decryptedLogs: AuditLogEntry[] = [];
     for (const log of data || []) {
-      const decrypted = await this.decryptAuditLog(log.encrypted_log_entry, userId);
+      const decrypted = SERVER_LOG_TYPES.has(log.log_type)
+        ? this.parseServerAuditLog(log.encrypted_log_entry)
+        : await this.decryptAuditLog(log.encrypted_log_entry, userId);
       if (decrypted) {
         decryptedLogs.push(decrypted);
       }
@@ -198,6 +247,16 @@ export class SecureDataManager {
     return decryptedLogs;
   }
 
+  // Read an audit log entry the server wrote in the clear
+  private static parseServerAuditLog(logEntry: string): AuditLogEntry | null {
+    try {
+      return JSON.parse(logEntry);
+    } catch (error) {
+      console.error('Error parsing server audit log:', error);
+      return null;
+    }
+  }
+
   // Encrypt user profile data before storage
   static async encryptProfileData(profileData: any, userId: string): Promise<string> {
     const encrypted = await this.encryptData(profileData, userId, 'profile');
@@ -214,4 +273,115 @@ export class SecureDataManager {
       return null;
     }
   }
-}
\ No newline at end of file
+
+  // Re-encrypt every record not yet under the current vault key: legacy userId-derived
+  // records, and during a key rotation records under the outgoing key
+  // Safe to re-run: records already under the current key are skipped, as are records under a
+  // key this session doesn't hold (discarded by a vault reset, or newer than ours)
+  static async reencryptUserData(
+    userId: string,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<void> {
+    const currentKeyId = getVaultKeyId();
+
+    const { data: index, error: indexError } = await supabase
+      .from('user_file_index')
+      .select('encrypted_file_list')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (indexError) throw indexError;
+
+    const { data: logs, error: logsError } = await supabase
+      .from('encrypted_audit_logs')
+      .select('id, encrypted_log_entry, log_type')
+      .eq('user_id', userId);
+
+    if (logsError) throw logsError;
+
+    const { data: vault, error: vaultError } = await supabase
+      .from('user_vaults')
+      .select('encrypted_private_key, encrypted_signing_key')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (vaultError) throw vaultError;
+
+    const total = 3 + (logs?.length ?? 0);
+    let done = 0;
+
+    if (index?.encrypted_file_list) {
+      const encrypted: EncryptedData = JSON.parse(index.encrypted_file_list);
+      if (encrypted.keyId !== currentKeyId && (!encrypted.keyId || hasVaultKey(encrypted.keyId))) {
+        // Throws rather than falling back to an empty list, so nothing is lost mid-rotation
+        await this.updateFileList(userId, fileList => fileList);
+      }
+    }
+    onProgress?.(++done, total);
+
+    // The identity private keys used for direct shares and upload signatures (see identity.ts)
+    const identityKeys = [
+      { dataType: 'identity_key', value: vault?.encrypted_private_key },
+      { dataType: 'signing_key', value: vault?.encrypted_signing_key }
+    ] as const;
+
+    for (const { dataType, value } of identityKeys) {
+      if (value) {
+        const encrypted: EncryptedData = JSON.parse(value);
+        if (encrypted.keyId !== currentKeyId && (!encrypted.keyId || hasVaultKey(encrypted.keyId))) {
+          const reencrypted = JSON.stringify(
+            await this.encryptData(await this.decryptData(encrypted, userId, dataType), userId, dataType)
+          );
+          const { error } = await supabase
+            .from('user_vaults')
+            .update(dataType === 'identity_key'
+              ? { encrypted_private_key: reencrypted }
+              : { encrypted_signing_key: reencrypted })
+            .eq('user_id', userId);
+
+          if (error) throw error;
+        }
+      }
+      onProgress?.(++done, total);
+    }
+
+    for (const log of logs || []) {
+      if (SERVER_LOG_TYPES.has(log.log_type)) {
+        onProgress?.(++done, total);
+        continue;
+      }
+
+      let encrypted: EncryptedData;
+      try {
+        encrypted = JSON.parse(log.encrypted_log_entry);
+      } catch (error) {
+        onProgress?.(++done, total);
+        continue; // Written server-side, not one of ours
+      }
+
+      // Entries under a key a vault reset discarded can't be read again, and are left as they are
+      // rather than failing the whole pass on every unlock
+      if (encrypted.keyId && !hasVaultKey(encrypted.keyId)) {
+        onProgress?.(++done, total);
+        continue;
+      }
+
+      if (encrypted.keyId !== currentKeyId) {
+        // Legacy entries that don't decrypt were never ours either; vault entries must decrypt
+        const logEntry = encrypted.keyId
+          ? await this.decryptData(encrypted, userId, 'audit_log')
+          : await this.decryptAuditLog(log.encrypted_log_entry, userId);
+
+        if (logEntry) {
+          const { error } = await supabase
+            .from('encrypted_audit_logs')
+            .update({ encrypted_log_entry: await this.encryptAuditLog(logEntry, userId) })
+            .eq('id', log.id);
+
+          if (error) throw error;
+        }
+      }
+      onProgress?.(++done, total);
+    }
+  }
+}
@@ -0,0 +1,93 @@
+// Shamir secret sharing over GF(256)
+// Each byte of the secret is the constant term of its own random polynomial of degree k-1;
+// share x holds the polynomials evaluated at x. Any k shares recover the secret by Lagrange
+// interpolation at 0, fewer reveal nothing about it.
+
+export const MAX_SHARES = 255;
+
+// Exponent and log tables for GF(256) with the AES polynomial x^8 + x^4 + x^3 + x + 1
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+(() => {
+  let value = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = value;
+    LOG[value] = i;
+    // Multiply by the generator 3
+    value ^= (value << 1) ^ (value & 0x80 ? 0x11b : 0);
+  }
+  for (let i = 255; i < EXP.length; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+})();
+
+function multiply(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function divide(a: number, b: number): number {
+  if (b === 0) throw new Error('Division by zero in GF(256)');
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+export interface SecretShare {
+  x: number; // 1..255
+  y: Uint8Array; // Same length as the secret
+}
+
+// Split a secret into count shares, any threshold of which recover it
+export function splitSecret(secret: Uint8Array, count: number, threshold: number): SecretShare[] {
+  if (!Number.isInteger(threshold) || threshold < 2) {
+    throw new Error('Threshold must be at least 2');
+  }
+  if (!Number.isInteger(count) || count < threshold || count > MAX_SHARES) {
+    throw new Error(`Share count must be between the threshold and ${MAX_SHARES}`);
+  }
+
+  const coefficients = new Uint8Array(secret.length * (threshold - 1));
+  crypto.getRandomValues(coefficients);
+
+  const shares: SecretShare[] = [];
+  for (let x = 1; x <= count; x++) {
+    const y = new Uint8Array(secret.length);
+    for (let i = 0; i < secret.length; i++) {
+      // Horner's rule, highest coefficient first
+      let value = 0;
+      for (let j = threshold - 2; j >= 0; j--) {
+        value = multiply(value, x) ^ coefficients[i * (threshold - 1) + j];
+      }
+      y[i] = multiply(value, x) ^ secret[i];
+    }
+    shares.push({ x, y });
+  }
+  coefficients.fill(0);
+  return shares;
+}
+
+// Recover a secret from at least threshold shares of the same split
+// With too few shares this returns garbage rather than failing, so callers must check the result.
+export function combineShares(shares: SecretShare[]): Uint8Array {
+  if (shares.length === 0) throw new Error('No shares to combine');
+  const length = shares[0].y.length;
+  if (shares.some(share => share.y.length !== length)) {
+    throw new Error('Shares come from different secrets');
+  }
+  if (new Set(shares.map(share => share.x)).size !== shares.length) {
+    throw new Error('Duplicate share');
+  }
+
+  const secret = new Uint8Array(length);
+  for (const share of shares) {
+    // Lagrange basis polynomial for this share, evaluated at 0
+    let basis = 1;
+    for (const other of shares) {
+      if (other.x !== share.x) {
+        basis = multiply(basis, divide(other.x, other.x ^ share.x));
+      }
+    }
+    for (let i = 0; i < length; i++) {
+      secret[i] ^= multiply(share.y[i], basis);
+    }
+  }
+  return secret;
+}
@@ -0,0 +1,231 @@
+// Share links: any number of independent links to one file
+// Each link has its own expiry, download limit and optional password, and its own copy of the
+// master file key wrapped under a random secret that only travels in the link's fragment (for
+// password links, under the secret and the password, as in sharePassword.ts). The server keeps
+// the wrapped copy and releases it while the link is live, so revoking a link stops it handing
+// out the key without touching any other link. A recipient who already opened a link has of
+// course seen the key. Labels and link secrets are kept in the owner's encrypted file list.
+// Downloads through a link are claimed with a token derived from its secret, and once a file
+// has links, recipients can't claim it without one. They count against the link alone, not the
+// file's own download limit; the file's expiry still ends every link, as the file is purged then.
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  deriveSubkey,
+  encryptMessage,
+  arrayBufferToBase64,
+  base64ToArrayBuffer
+} from '@/lib/encryption';
+import {
+  createPasswordShare,
+  derivePasswordShareKeys,
+  hashAuthToken,
+  unwrapShareKey
+} from '@/lib/sharePassword';
+import { SecureDataManager } from '@/lib/secureDataManager';
+import { updateFileListEntry, type EncryptedFileMetadata } from '@/lib/fileManager';
+
+const LINK_SECRET_LENGTH = 16;
+const LINK_WRAP_INFO = 'shard-cipher/link/wrap/v1';
+const LINK_CLAIM_INFO = 'shard-cipher/link/claim/v1';
+
+export interface ShareLinkOptions {
+  label: string;
+  expiryDays?: number;
+  maxDownloads?: number;
+  password?: string;
+}
+
+export interface ShareLink {
+  id: string;
+  label: string;
+  url?: string; // Unset for links whose secret isn't in the file list
+  hasPassword: boolean;
+  expiresAt?: string;
+  maxDownloads?: number;
+  downloadCount: number;
+  createdAt: string;
+}
+
+export type OpenLinkStatus = 'ok' | 'password_required' | 'invalid' | 'locked' | 'not_found' | 'expired' | 'limit_reached';
+
+export interface OpenLinkResult {
+  status: OpenLinkStatus;
+  key?: string; // Base64 master file key when status is 'ok'
+  attemptsRemaining: number;
+}
+
+// Key wrapping a file key under a plain link's secret; the secret is random, so HKDF is enough
+async function linkWrapKey(linkSecret: Uint8Array): Promise<CryptoKey> {
+  return await deriveSubkey(linkSecret, new Uint8Array(0), LINK_WRAP_INFO);
+}
+
+// Token proving a claim came through a link, without giving the server the link secret
+export async function linkClaimToken(linkSecretBase64: string): Promise<string> {
+  const label = new TextEncoder().encode(LINK_CLAIM_INFO);
+  const linkSecret = new Uint8Array(base64ToArrayBuffer(linkSecretBase64));
+  const input = new Uint8Array(label.length + linkSecret.length);
+  input.set(label);
+  input.set(linkSecret, label.length);
+  return arrayBufferToBase64(await crypto.subtle.digest('SHA-256', input));
+}
+
+// Download URL for a share link (the key itself never goes in the link)
+export function generateLinkDownloadUrl(fileId: string, linkId: string, linkSecret: string): string {
+  return `${window.location.origin}/f/${fileId}#link=${linkId}&secret=${encodeURIComponent(linkSecret)}`;
+}
+
+// Create a new link to a file the current user owns, returning its URL
+export async function createShareLink(file: EncryptedFileMetadata, options: ShareLinkOptions): Promise<string> {
+  if (file.iv) {
+    throw new Error('This file uses a legacy format and cannot have share links');
+  }
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) throw new Error('User not authenticated');
+
+  let linkSecret: string;
+  let wrappedKey: string;
+  let kdfParams: string | null = null;
+  let authHash: string | null = null;
+
+  if (options.password) {
+    const passwordShare = await createPasswordShare(file.key, options.password);
+    ({ linkSecret, wrappedKey, kdfParams, authHash } = passwordShare);
+  } else {
+    const secret = crypto.getRandomValues(new Uint8Array(LINK_SECRET_LENGTH));
+    const wrapped = await encryptMessage(base64ToArrayBuffer(file.key), await linkWrapKey(secret));
+    linkSecret = arrayBufferToBase64(secret);
+    wrappedKey = arrayBufferToBase64(wrapped);
+  }
+
+  const expiresAt = options.expiryDays
+    ? new Date(Date.now() + options.expiryDays * 24 * 60 * 60 * 1000).toISOString()
+    : null;
+  // The file is purged when it expires, taking its links with it
+  if (expiresAt && file.expiresAt && new Date(expiresAt) > new Date(file.expiresAt)) {
+    throw new Error(`A link can't outlive its file, which expires ${new Date(file.expiresAt).toLocaleDateString()}`);
+  }
+
+  const { data: link, error } = await supabase
+    .from('share_links')
+    .insert({
+      file_id: file.fileId,
+      owner_id: user.id,
+      wrapped_key: wrappedKey,
+      kdf_params: kdfParams,
+      auth_hash: authHash,
+      claim_hash: await hashAuthToken(await linkClaimToken(linkSecret)),
+      expires_at: expiresAt,
+      max_downloads: options.maxDownloads ?? null
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  await updateFileListEntry(user.id, file.fileId, current => ({
+    ...current,
+    shareLinks: [...(current.shareLinks ?? []), { id: link.id, label: options.label, linkSecret }]
+  }));
+
+  await SecureDataManager.storeEncryptedAuditLog(user.id, {
+    action: 'link_created',
+    timestamp: new Date().toISOString(),
+    data: { fileId: file.fileId, linkId: link.id, fileName: file.originalName }
+  });
+
+  return generateLinkDownloadUrl(file.fileId, link.id, linkSecret);
+}
+
+// The live links to a file the current user owns, newest first
+export async function listShareLinks(fileId: string): Promise<ShareLink[]> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) throw new Error('User not authenticated');
+
+  const { data, error } = await supabase
+    .from('share_links')
+    .select('id, auth_hash, expires_at, max_downloads, download_count, created_at')
+    .eq('file_id', fileId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  const fileList = await SecureDataManager.getDecryptedFileList(user.id);
+  const savedLinks = fileList.find(f => f.fileId === fileId)?.shareLinks ?? [];
+
+  return (data || []).map(link => {
+    const saved = savedLinks.find(l => l.id === link.id);
+    return {
+      id: link.id,
+      label: saved?.label || 'Unlabelled link',
+      url: saved ? generateLinkDownloadUrl(fileId, link.id, saved.linkSecret) : undefined,
+      hasPassword: link.auth_hash !== null,
+      expiresAt: link.expires_at ?? undefined,
+      maxDownloads: link.max_downloads ?? undefined,
+      downloadCount: link.download_count,
+      createdAt: link.created_at
+    };
+  });
+}
+
+// Revoke one link; other links to the file keep working
+export async function revokeShareLink(file: EncryptedFileMetadata, linkId: string): Promise<void> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) throw new Error('User not authenticated');
+
+  const { error } = await supabase
+    .from('share_links')
+    .delete()
+    .eq('id', linkId);
+
+  if (error) throw error;
+
+  await updateFileListEntry(user.id, file.fileId, current => ({
+    ...current,
+    shareLinks: current.shareLinks?.filter(l => l.id !== linkId)
+  }));
+
+  await SecureDataManager.storeEncryptedAuditLog(user.id, {
+    action: 'link_revoked',
+    timestamp: new Date().toISOString(),
+    data: { fileId: file.fileId, linkId, fileName: file.originalName }
+  });
+}
+
+// Recover the master file key through a share link
+// Without a password, password links come back as 'password_required'; with one, failures
+// are counted server-side as for password shares.
+export async function openShareLink(
+  linkId: string,
+  linkSecretBase64: string,
+  password?: string
+): Promise<OpenLinkResult> {
+  const { data: link, error } = await supabase
+    .rpc('open_share_link', { p_link_id: linkId })
+    .single();
+
+  if (error) throw error;
+
+  if (link.status === 'ok') {
+    const linkSecret = new Uint8Array(base64ToArrayBuffer(linkSecretBase64));
+    const key = await unwrapShareKey(link.wrapped_key, await linkWrapKey(linkSecret));
+    return { status: 'ok', key, attemptsRemaining: 0 };
+  }
+  if (link.status !== 'password_required' || !password) {
+    return { status: link.status as OpenLinkStatus, attemptsRemaining: 0 };
+  }
+
+  const { wrapKey, authToken } = await derivePasswordShareKeys(link.kdf_params, linkSecretBase64, password);
+  const { data: unlock, error: unlockError } = await supabase
+    .rpc('unlock_share_link', { p_link_id: linkId, p_auth_token: authToken })
+    .single();
+
+  if (unlockError) throw unlockError;
+  if (unlock.status !== 'ok') {
+    return { status: unlock.status as OpenLinkStatus, attemptsRemaining: unlock.attempts_remaining ?? 0 };
+  }
+
+  const key = await unwrapShareKey(unlock.wrapped_key, wrapKey);
+  return { status: 'ok', key, attemptsRemaining: unlock.attempts_remaining };
+}
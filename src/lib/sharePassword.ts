@@ -0,0 +1,213 @@
+// Password-protected share links
+// The master file key is wrapped under a key derived from the share password and a
+// random link secret carried in the URL fragment. The server stores the wrapped key
+// and a hash of an auth token derived from the same inputs, and only hands the wrapped
+// key out (counting failures) once the token matches. Without the link secret the
+// server can't guess passwords offline; without the server a leaked link can't either.
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  KdfId,
+  encodePbkdf2Params,
+  decodePbkdf2Params,
+  type Pbkdf2Params
+} from '@/lib/cipherHeader';
+import {
+  deriveSubkey,
+  encryptMessage,
+  decryptMessage,
+  generateSalt,
+  arrayBufferToBase64,
+  base64ToArrayBuffer
+} from '@/lib/encryption';
+
+export const SHARE_PASSWORD_ITERATIONS = 600000;
+export const MIN_SHARE_PASSWORD_LENGTH = 8;
+
+const LINK_SECRET_LENGTH = 16;
+const SHARE_WRAP_INFO = 'shard-cipher/share/wrap/v1';
+const SHARE_AUTH_INFO = 'shard-cipher/share/auth/v1';
+
+export interface PasswordShareResult {
+  linkSecret: string; // Base64, goes in the link fragment
+  kdfParams: string; // Base64 encoded PBKDF2 params, stored server-side
+  wrappedKey: string; // Base64 master key wrapped under the password
+  authHash: string; // Hex SHA-256 of the auth token, stored server-side
+}
+
+export type UnlockStatus = 'ok' | 'invalid' | 'locked' | 'not_found';
+
+export interface UnlockResult {
+  status: UnlockStatus;
+  key?: string; // Base64 master file key when status is 'ok'
+  attemptsRemaining: number;
+}
+
+// Derive the wrapping key and auth token from a password and link secret
+// PBKDF2 stretches the password, then HKDF splits password + link secret into the two keys
+async function deriveShareKeys(
+  password: string,
+  linkSecret: Uint8Array,
+  params: Pbkdf2Params
+): Promise<{ wrapKey: CryptoKey; authToken: string }> {
+  const passwordKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const stretched = await crypto.subtle.deriveBits(
+    {
+      name: 'PBKDF2',
+      salt: params.salt,
+      iterations: params.iterations,
+      hash: 'SHA-256'
+    },
+    passwordKey,
+    256
+  );
+
+  const keyMaterial = new Uint8Array(stretched.byteLength + linkSecret.length);
+  keyMaterial.set(new Uint8Array(stretched), 0);
+  keyMaterial.set(linkSecret, stretched.byteLength);
+
+  const hkdfKey = await crypto.subtle.importKey('raw', keyMaterial, 'HKDF', false, ['deriveBits']);
+  const authBits = await crypto.subtle.deriveBits(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: params.salt,
+      info: new TextEncoder().encode(SHARE_AUTH_INFO)
+    },
+    hkdfKey,
+    256
+  );
+
+  return {
+    wrapKey: await deriveSubkey(keyMaterial, params.salt, SHARE_WRAP_INFO),
+    authToken: arrayBufferToBase64(authBits)
+  };
+}
+
+// Hex SHA-256 of an auth token, as compared by unlock_password_share (and claim_download,
+// for share link claim tokens)
+export async function hashAuthToken(authToken: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(authToken));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Wrap a master file key under a share password with a fresh salt and link secret
+export async function createPasswordShare(keyBase64: string, password: string): Promise<PasswordShareResult> {
+  if (password.length < MIN_SHARE_PASSWORD_LENGTH) {
+    throw new Error(`Share password must be at least ${MIN_SHARE_PASSWORD_LENGTH} characters`);
+  }
+
+  const params: Pbkdf2Params = { iterations: SHARE_PASSWORD_ITERATIONS, salt: generateSalt() };
+  const encodedParams = encodePbkdf2Params(params);
+  const linkSecret = crypto.getRandomValues(new Uint8Array(LINK_SECRET_LENGTH));
+  const { wrapKey, authToken } = await deriveShareKeys(password, linkSecret, params);
+
+  const wrappedKey = await encryptMessage(base64ToArrayBuffer(keyBase64), wrapKey, {
+    kdfId: KdfId.PBKDF2_SHA256,
+    kdfParams: encodedParams
+  });
+
+  return {
+    linkSecret: arrayBufferToBase64(linkSecret),
+    kdfParams: arrayBufferToBase64(encodedParams),
+    wrappedKey: arrayBufferToBase64(wrappedKey),
+    authHash: await hashAuthToken(authToken)
+  };
+}
+
+// Store a password share on a file the current user owns
+export async function setPasswordShare(fileId: string, share: PasswordShareResult): Promise<void> {
+  const { error } = await supabase
+    .from('encrypted_files')
+    .update({
+      share_kdf_params: share.kdfParams,
+      share_wrapped_key: share.wrappedKey,
+      share_auth_hash: share.authHash,
+      share_failed_attempts: 0,
+      share_locked_until: null
+    })
+    .eq('file_id', fileId);
+
+  if (error) throw error;
+}
+
+// Remove the password share from a file the current user owns
+export async function clearPasswordShare(fileId: string): Promise<void> {
+  const { error } = await supabase
+    .from('encrypted_files')
+    .update({
+      share_kdf_params: null,
+      share_wrapped_key: null,
+      share_auth_hash: null,
+      share_failed_attempts: 0,
+      share_locked_until: null
+    })
+    .eq('file_id', fileId);
+
+  if (error) throw error;
+}
+
+// Derive the wrapping key and auth token for a password and link secret from stored KDF params
+export async function derivePasswordShareKeys(
+  kdfParams: string,
+  linkSecretBase64: string,
+  password: string
+): Promise<{ wrapKey: CryptoKey; authToken: string }> {
+  const params = decodePbkdf2Params(new Uint8Array(base64ToArrayBuffer(kdfParams)));
+  const linkSecret = new Uint8Array(base64ToArrayBuffer(linkSecretBase64));
+  return await deriveShareKeys(password, linkSecret, params);
+}
+
+// Unwrap a master file key (base64) released by the server
+export async function unwrapShareKey(wrappedKey: string, wrapKey: CryptoKey): Promise<string> {
+  try {
+    const key = await decryptMessage(new Uint8Array(base64ToArrayBuffer(wrappedKey)), wrapKey);
+    return arrayBufferToBase64(key);
+  } catch (error) {
+    throw new Error('Share key could not be unwrapped - the link may be incomplete');
+  }
+}
+
+// Recover the master file key from a password link, counting failures server-side
+export async function unlockPasswordShare(
+  fileId: string,
+  linkSecretBase64: string,
+  password: string
+): Promise<UnlockResult> {
+  const { data: kdfParams, error: paramsError } = await supabase
+    .rpc('get_share_kdf_params', { p_file_id: fileId });
+
+  if (paramsError) throw paramsError;
+  if (!kdfParams) return { status: 'not_found', attemptsRemaining: 0 };
+
+  const { wrapKey, authToken } = await derivePasswordShareKeys(kdfParams, linkSecretBase64, password);
+
+  const { data, error } = await supabase
+    .rpc('unlock_password_share', { p_file_id: fileId, p_auth_token: authToken });
+
+  if (error) throw error;
+  const result = data?.[0];
+  if (!result || result.status !== 'ok') {
+    return {
+      status: (result?.status ?? 'not_found') as UnlockStatus,
+      attemptsRemaining: result?.attempts_remaining ?? 0
+    };
+  }
+
+  const key = await unwrapShareKey(result.wrapped_key, wrapKey);
+  return { status: 'ok', key, attemptsRemaining: result.attempts_remaining };
+}
+
+// Generate a password-protected download URL (the password itself never goes in the link)
+export function generatePasswordDownloadUrl(fileId: string, linkSecret: string): string {
+  const baseUrl = window.location.origin;
+  return `${baseUrl}/f/${fileId}#pw=${encodeURIComponent(linkSecret)}`;
+}
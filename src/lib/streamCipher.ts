@@ -0,0 +1,173 @@
+// Chunked AES-GCM container format for streaming file encryption
+// Files are split into fixed-size segments so they never have to sit in memory at once
+//
+// Layout: header | chunk_0 | chunk_1 | ... | chunk_n
+//   header  = cipher header (see cipherHeader.ts), cipher AES_256_GCM_CHUNKED
+//   chunk_i = AES-GCM(plaintext_i) with its own 16 byte tag
+//   nonce_i = nonce prefix (7) | i (4, BE) | final flag (1)
+// The counter stops chunks being reordered, the final flag stops the stream being
+// truncated at a chunk boundary, and the header is bound to every chunk as AAD.
+
+import {
+  CipherId,
+  KdfId,
+  MAX_CHUNK_SIZE,
+  encodeCipherHeader,
+  parseCipherHeader,
+  cipherHeaderLength,
+  type CipherHeader
+} from '@/lib/cipherHeader';
+
+export const DEFAULT_CHUNK_SIZE = 1024 * 1024; // 1 MiB
+
+const NONCE_PREFIX_LENGTH = 7;
+const TAG_LENGTH = 16;
+const MAX_HEADER_LENGTH = 0xffff; // The header's length field is 16 bits
+
+export interface EncryptStreamOptions {
+  chunkSize?: number;
+  kdfId?: KdfId;
+  kdfParams?: Uint8Array;
+  onProgress?: (done: number) => void; // Plaintext bytes encrypted so far
+}
+
+// Upper bound on the container size for content of the given size: a header and a tag per chunk
+export function maxEncryptedLength(size: number, chunkSize: number = DEFAULT_CHUNK_SIZE): number {
+  return MAX_HEADER_LENGTH + Math.max(1, Math.ceil(size / chunkSize)) * TAG_LENGTH + size;
+}
+
+// Build the per-chunk nonce from the prefix, chunk counter and final flag
+function chunkNonce(noncePrefix: Uint8Array, index: number, final: boolean): Uint8Array {
+  const nonce = new Uint8Array(12);
+  nonce.set(noncePrefix, 0);
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, index);
+  nonce[11] = final ? 1 : 0;
+  return nonce;
+}
+
+// Encrypt a Blob into a stream of container bytes, reading one chunk at a time
+export function createEncryptStream(
+  source: Blob,
+  key: CryptoKey,
+  options: EncryptStreamOptions = {}
+): ReadableStream<Uint8Array> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  // Readers refuse anything larger, so never write it
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error(`Chunk size must be between 1 and ${MAX_CHUNK_SIZE} bytes`);
+  }
+  const noncePrefix = crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_LENGTH));
+  const header = encodeCipherHeader({
+    cipherId: CipherId.AES_256_GCM_CHUNKED,
+    kdfId: options.kdfId ?? KdfId.NONE,
+    kdfParams: options.kdfParams ?? new Uint8Array(0),
+    chunkSize,
+    nonce: noncePrefix
+  });
+  const chunkCount = Math.max(1, Math.ceil(source.size / chunkSize));
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(header);
+    },
+    async pull(controller) {
+      const start = index * chunkSize;
+      const final = index === chunkCount - 1;
+      const plaintext = await source.slice(start, start + chunkSize).arrayBuffer();
+
+      const ciphertext = await crypto.subtle.encrypt(
+        {
+          name: 'AES-GCM',
+          iv: chunkNonce(noncePrefix, index, final),
+          additionalData: header
+        },
+        key,
+        plaintext
+      );
+      controller.enqueue(new Uint8Array(ciphertext));
+      options.onProgress?.(start + plaintext.byteLength);
+
+      index++;
+      if (final) {
+        controller.close();
+      }
+    }
+  });
+}
+
+// Decrypt a stream of container bytes back into plaintext chunks
+// The key is resolved from the parsed header, so callers can honour its KDF settings
+export function createDecryptStream(
+  resolveKey: CryptoKey | ((header: CipherHeader) => Promise<CryptoKey>)
+): TransformStream<Uint8Array, Uint8Array> {
+  let pending = new Uint8Array(0);
+  let headerBytes: Uint8Array | null = null;
+  let header: CipherHeader | null = null;
+  let key: CryptoKey | null = null;
+  let index = 0;
+
+  const append = (bytes: Uint8Array) => {
+    const combined = new Uint8Array(pending.length + bytes.length);
+    combined.set(pending, 0);
+    combined.set(bytes, pending.length);
+    pending = combined;
+  };
+
+  const decryptChunk = async (ciphertext: Uint8Array, final: boolean): Promise<Uint8Array> => {
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: chunkNonce(header.nonce, index, final),
+          additionalData: headerBytes
+        },
+        key,
+        ciphertext
+      );
+      index++;
+      return new Uint8Array(plaintext);
+    } catch (error) {
+      throw new Error('Encrypted file is corrupted, truncated or has been tampered with');
+    }
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    async transform(bytes, controller) {
+      append(bytes);
+
+      if (!header) {
+        const headerLength = cipherHeaderLength(pending);
+        if (headerLength === null || pending.length < headerLength) return;
+
+        headerBytes = pending.slice(0, headerLength);
+        header = parseCipherHeader(headerBytes);
+        if (header.cipherId !== CipherId.AES_256_GCM_CHUNKED) {
+          throw new Error('Encrypted file does not use the chunked format');
+        }
+        key = typeof resolveKey === 'function' ? await resolveKey(header) : resolveKey;
+        pending = pending.slice(headerLength);
+      }
+
+      // Only decrypt a chunk as non-final once more data follows it
+      const sealedChunkSize = header.chunkSize + TAG_LENGTH;
+      while (pending.length > sealedChunkSize) {
+        controller.enqueue(await decryptChunk(pending.slice(0, sealedChunkSize), false));
+        pending = pending.slice(sealedChunkSize);
+      }
+    },
+    async flush(controller) {
+      if (!header || pending.length < TAG_LENGTH) {
+        throw new Error('Encrypted file is corrupted, truncated or has been tampered with');
+      }
+      controller.enqueue(await decryptChunk(pending, true));
+      pending = new Uint8Array(0);
+    }
+  });
+}
+
+// Collect a byte stream into a Blob (browsers may spill large Blobs to disk)
+export async function collectStream(stream: ReadableStream<Uint8Array>, type?: string): Promise<Blob> {
+  const blob = await new Response(stream).blob();
+  return type ? new Blob([blob], { type }) : blob;
+}
@@ -0,0 +1,131 @@
+// Minimal syntax highlighting for text previews
+// A handful of regex rules per language family - enough to tell comments, strings and
+// keywords apart, not a parser. The output is plain tokens that are rendered as text nodes,
+// so nothing in the previewed file is ever interpreted as markup.
+
+export type TokenKind = 'comment' | 'string' | 'number' | 'keyword' | 'tag' | 'attribute' | 'heading' | 'code' | 'emphasis' | 'link';
+
+export interface Token {
+  text: string;
+  kind?: TokenKind; // Unset for plain text
+}
+
+type Rule = [RegExp, TokenKind | null];
+
+const words = (list: string, flags = '') => new RegExp(`\\b(?:${list.trim().split(/\s+/).join('|')})\\b`, `y${flags}`);
+
+const NUMBER: Rule = [/\b(?:0x[\da-f]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)\b/iy, 'number'];
+const DOUBLE_QUOTED: Rule = [/"(?:\\.|[^"\\\n])*"?/y, 'string'];
+const SINGLE_QUOTED: Rule = [/'(?:\\.|[^'\\\n])*'?/y, 'string'];
+const BLOCK_COMMENT: Rule = [/\/\*[\s\S]*?(?:\*\/|$)/y, 'comment'];
+const WORD: Rule = [/[A-Za-z_$][\w$]*/y, null]; // Keeps keywords from matching inside identifiers
+
+const LANGUAGES: Record<string, Rule[]> = {
+  plain: [],
+  c: [
+    [/\/\/[^\n]*/y, 'comment'],
+    BLOCK_COMMENT,
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+    [/`(?:\\.|[^`\\])*`?/y, 'string'],
+    NUMBER,
+    [words(`
+      abstract as async await break case catch class const continue def default defer delete do else enum
+      export extends false final finally fn for func function go if impl implements import in instanceof
+      interface let match mod mut namespace new nil null package private protected pub public return self
+      static struct super switch this throw throws trait true try type typeof undefined use val var void
+      when where while yield
+    `), 'keyword'],
+    WORD
+  ],
+  hash: [
+    [/#[^\n]*/y, 'comment'],
+    [/"""[\s\S]*?(?:"""|$)/y, 'string'],
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+    NUMBER,
+    [words(`
+      and as assert async await break case class continue def del do done elif else esac except export fi
+      finally for from function global if import in is lambda local not or pass raise return then try
+      while with yield None True False true false null yes no
+    `), 'keyword'],
+    WORD
+  ],
+  sql: [
+    [/--[^\n]*/y, 'comment'],
+    BLOCK_COMMENT,
+    SINGLE_QUOTED,
+    DOUBLE_QUOTED,
+    NUMBER,
+    [words(`
+      select from where and or not insert into values update set delete create table alter drop index view
+      join left right inner outer on as group by order having limit offset union all distinct null is in
+      like between case when then else end primary key foreign references default returning function begin
+      commit rollback grant revoke with
+    `, 'i'), 'keyword'],
+    WORD
+  ],
+  css: [
+    BLOCK_COMMENT,
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+    [/@[\w-]+/y, 'keyword'],
+    [/[\w-]+(?=\s*:[^:])/y, 'attribute'],
+    [/#[\da-f]{3,8}\b/iy, 'number'],
+    [/-?\d*\.?\d+(?:[a-z]+|%)?/iy, 'number']
+  ],
+  json: [
+    [/"(?:\\.|[^"\\\n])*"(?=\s*:)/y, 'attribute'],
+    DOUBLE_QUOTED,
+    [/-?\d+(?:\.\d+)?(?:e[+-]?\d+)?/iy, 'number'],
+    [words('true false null'), 'keyword']
+  ],
+  markup: [
+    [/<!--[\s\S]*?(?:-->|$)/y, 'comment'],
+    [/<\/?[\w:-]+|\/?>/y, 'tag'],
+    [/[\w:-]+(?==)/y, 'attribute'],
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED
+  ],
+  markdown: [
+    [/^#{1,6}\s[^\n]*/my, 'heading'],
+    [/^>[^\n]*/my, 'comment'],
+    [/^\s*(?:[-*+]|\d+\.)\s/my, 'keyword'],
+    [/```[\s\S]*?(?:```|$)/y, 'code'],
+    [/`[^`\n]*`/y, 'code'],
+    [/\[[^\]\n]*\]\([^)\n]*\)/y, 'link'],
+    [/\*\*[^*\n]+\*\*|__[^_\n]+__|\*[^*\s][^*\n]*\*|_[^_\s][^_\n]*_/y, 'emphasis']
+  ]
+};
+
+// Split text into highlighted tokens; unknown languages come back as one plain token
+export function highlight(text: string, language: string): Token[] {
+  const rules = LANGUAGES[language] ?? [];
+  const tokens: Token[] = [];
+  let plainStart = 0;
+  let position = 0;
+
+  const flushPlain = (end: number) => {
+    if (end > plainStart) tokens.push({ text: text.slice(plainStart, end) });
+  };
+
+  outer: while (position < text.length) {
+    for (const [pattern, kind] of rules) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(text);
+      if (!match || match[0].length === 0) continue;
+
+      if (kind) {
+        flushPlain(position);
+        tokens.push({ text: match[0], kind });
+        plainStart = position + match[0].length;
+      }
+      position += match[0].length;
+      continue outer;
+    }
+    position++;
+  }
+
+  flushPlain(text.length);
+  return tokens;
+}
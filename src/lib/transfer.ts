@@ -0,0 +1,247 @@
+// Storage transfers with byte-level progress and cancellation
+// supabase-js transfers with fetch, which can't report upload progress, so these send the
+// bytes over XHR instead: uploads use the tus resumable protocol, in chunks, so a dropped
+// connection only costs the chunk in flight. Downloads fetch the short-lived signed URL handed
+// out by the claim-download edge function, either into a Blob or as a stream for saving
+// straight to disk.
+
+import { supabase } from '@/integrations/supabase/client';
+import { cancelledError, isCancelled } from '@/lib/cryptoWorker';
+
+const BUCKET = 'encrypted-files';
+
+// Supabase Storage requires every tus chunk but the last to be exactly 6 MiB
+const TUS_CHUNK_SIZE = 6 * 1024 * 1024;
+const TUS_VERSION = '1.0.0';
+
+// Attempts per chunk before giving up; the upload can still be resumed later
+const TUS_MAX_ATTEMPTS = 4;
+const TUS_RETRY_DELAY_MS = 1000;
+
+export interface StorageTransferOptions {
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export interface ResumableUploadOptions extends StorageTransferOptions {
+  uploadUrl?: string; // tus upload to continue, from an earlier onUploadUrl
+  onUploadUrl?: (uploadUrl: string) => void; // Called once the server has created the upload
+}
+
+// Send one XHR, resolving once it completes with a 2xx status
+function sendRequest(
+  method: 'GET' | 'HEAD' | 'POST' | 'PATCH',
+  url: string,
+  body: Blob | null,
+  headers: Record<string, string>,
+  options: StorageTransferOptions
+): Promise<XMLHttpRequest> {
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    if (method === 'GET') xhr.responseType = 'blob';
+    for (const [name, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(name, value);
+    }
+
+    const onAbort = () => xhr.abort();
+    options.signal?.addEventListener('abort', onAbort);
+    const progressTarget = method === 'GET' ? xhr : xhr.upload;
+    progressTarget.onprogress = (event) => {
+      options.onProgress?.(event.loaded, event.lengthComputable ? event.total : body?.size ?? 0);
+    };
+
+    xhr.onload = () => {
+      options.signal?.removeEventListener('abort', onAbort);
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr);
+      } else {
+        reject(Object.assign(new Error(`Storage request failed with status ${xhr.status}`), { status: xhr.status }));
+      }
+    };
+    xhr.onerror = () => {
+      options.signal?.removeEventListener('abort', onAbort);
+      reject(new Error('Network error during file transfer'));
+    };
+    xhr.onabort = () => {
+      options.signal?.removeEventListener('abort', onAbort);
+      reject(cancelledError());
+    };
+
+    xhr.send(body);
+  });
+}
+
+// Base URL of the Storage API, taken from a public object URL so it stays in step with the client
+function storageUrl(): string {
+  const { data } = supabase.storage.from(BUCKET).getPublicUrl('x');
+  return data.publicUrl.slice(0, data.publicUrl.indexOf('/object/public/'));
+}
+
+async function tusHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('User not authenticated');
+  return { authorization: `Bearer ${session.access_token}`, 'tus-resumable': TUS_VERSION };
+}
+
+// tus metadata: comma-separated "key base64(value)" pairs
+function encodeTusMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(value)}`)
+    .join(',');
+}
+
+// HTTP status of a request that completed with an error status; undefined for network failures
+const failedStatus = (error: unknown) => (error as { status?: number }).status;
+
+// Network failures, server errors and tus offset conflicts are worth another try
+const isRetryable = (error: unknown) => {
+  if (isCancelled(error)) return false;
+  const status = failedStatus(error);
+  return status === undefined || status >= 500 || status === 409 || status === 423;
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Create a tus upload for a new object, returning its upload URL
+async function createTusUpload(path: string, size: number, options: StorageTransferOptions): Promise<string> {
+  const base = storageUrl();
+  const xhr = await sendRequest('POST', `${base}/upload/resumable`, null, {
+    ...(await tusHeaders()),
+    'upload-length': String(size),
+    'upload-metadata': encodeTusMetadata({
+      bucketName: BUCKET,
+      objectName: path,
+      contentType: 'application/octet-stream',
+      cacheControl: '3600'
+    }),
+    'x-upsert': 'false'
+  }, { signal: options.signal });
+
+  const location = xhr.getResponseHeader('location');
+  if (!location) throw new Error('Storage did not return an upload URL');
+  return new URL(location, base).toString();
+}
+
+// Bytes the server already has for a tus upload, or null if the upload is gone
+async function getTusOffset(uploadUrl: string, options: StorageTransferOptions): Promise<number | null> {
+  try {
+    const xhr = await sendRequest('HEAD', uploadUrl, null, await tusHeaders(), { signal: options.signal });
+    return Number(xhr.getResponseHeader('upload-offset') ?? 0);
+  } catch (error) {
+    if ([403, 404, 410].includes(failedStatus(error) ?? 0)) return null;
+    throw error;
+  }
+}
+
+// Whether the object is already stored in full, by an upload that finished earlier
+async function isStored(path: string, size: number): Promise<boolean> {
+  const folder = path.slice(0, path.lastIndexOf('/'));
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const { data, error } = await supabase.storage.from(BUCKET).list(folder, { search: name, limit: 10 });
+
+  if (error) return false;
+  return (data || []).some(object => object.name === name && object.metadata?.size === size);
+}
+
+// Upload a blob to the encrypted-files bucket over tus, resuming options.uploadUrl if given
+// Failed chunks are retried from the offset the server reports, a few times with backoff.
+// An upload that already finished (only recording it failed) resolves straight away: the server
+// reports its full length as the offset, or has dropped it and refuses to create the object again.
+export async function uploadResumable(
+  path: string,
+  body: Blob,
+  options: ResumableUploadOptions = {}
+): Promise<void> {
+  let uploadUrl = options.uploadUrl;
+  let offset = uploadUrl ? await getTusOffset(uploadUrl, options) : null;
+  if (!uploadUrl || offset === null) {
+    try {
+      uploadUrl = await createTusUpload(path, body.size, options);
+    } catch (error) {
+      const status = failedStatus(error) ?? 0;
+      if (status >= 400 && status < 500 && await isStored(path, body.size)) {
+        options.onProgress?.(body.size, body.size);
+        return;
+      }
+      throw error;
+    }
+    options.onUploadUrl?.(uploadUrl);
+    offset = 0;
+  }
+  options.onProgress?.(offset, body.size);
+
+  let attempt = 0;
+  while (offset < body.size) {
+    const start = offset;
+    const chunk = body.slice(start, Math.min(start + TUS_CHUNK_SIZE, body.size));
+    try {
+      const xhr = await sendRequest('PATCH', uploadUrl, chunk, {
+        ...(await tusHeaders()),
+        'upload-offset': String(start),
+        'content-type': 'application/offset+octet-stream'
+      }, {
+        signal: options.signal,
+        onProgress: done => options.onProgress?.(start + done, body.size)
+      });
+      offset = Number(xhr.getResponseHeader('upload-offset') ?? start + chunk.size);
+      attempt = 0;
+    } catch (error) {
+      if (!isRetryable(error) || ++attempt >= TUS_MAX_ATTEMPTS) throw error;
+      await delay(TUS_RETRY_DELAY_MS * 2 ** (attempt - 1), options.signal);
+
+      // Continue from whatever the server actually stored; if it can't be asked, resend the chunk
+      const serverOffset = await getTusOffset(uploadUrl, options).catch(() => start);
+      if (serverOffset === null) throw new Error('The upload expired on the server - start it again');
+      offset = serverOffset;
+    }
+  }
+}
+
+// Download a blob from a signed storage URL
+export async function downloadFromUrl(url: string, options: StorageTransferOptions = {}): Promise<Blob> {
+  const xhr = await sendRequest('GET', url, null, {}, options);
+  return xhr.response as Blob;
+}
+
+// Stream a signed storage URL as it arrives, without holding the blob in memory
+// Progress counts bytes received; aborting the signal errors the stream.
+export async function streamFromUrl(
+  url: string,
+  options: StorageTransferOptions = {}
+): Promise<ReadableStream<Uint8Array>> {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: options.signal });
+  } catch (error) {
+    throw isCancelled(error) ? cancelledError() : new Error('Network error during file transfer');
+  }
+  if (!response.ok || !response.body) {
+    throw new Error(`Storage request failed with status ${response.status}`);
+  }
+
+  const total = Number(response.headers.get('content-length') ?? 0);
+  let done = 0;
+  return response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(bytes, controller) {
+      done += bytes.length;
+      options.onProgress?.(done, total);
+      controller.enqueue(bytes);
+    }
+  }));
+}
@@ -0,0 +1,343 @@
+// User vault: a random master key protecting the file index, audit logs and profile data
+// The master key is wrapped under a key stretched from the account password and stored in
+// user_vaults. Supabase auth only gets a separately derived hash of the password
+// (authPassword.ts), so the server can't unwrap it. The unwrapped key only ever lives in
+// memory for the current tab.
+// A second copy is wrapped under the recovery phrase, for when the password is forgotten.
+// During key rotation a pending master key sits alongside, wrapped under the current one,
+// so whichever way the vault is next unlocked the rotation can pick up where it stopped.
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  KdfId,
+  encodePbkdf2Params,
+  decodePbkdf2Params,
+  encodeHkdfParams,
+  decodeHkdfParams
+} from '@/lib/cipherHeader';
+import {
+  deriveKeyFromPassword,
+  deriveSubkey,
+  encryptMessage,
+  decryptMessage,
+  generateSalt,
+  arrayBufferToBase64,
+  base64ToArrayBuffer
+} from '@/lib/encryption';
+import { generateRecoveryPhrase, parseRecoveryPhrase } from '@/lib/recoveryPhrase';
+
+export const VAULT_KDF_ITERATIONS = 600000;
+
+const RECOVERY_WRAP_INFO = 'shard-cipher/vault/recovery/v1';
+const ROTATION_WRAP_INFO = 'shard-cipher/vault/rotation/v1';
+
+interface VaultKey {
+  keyId: string; // Identifies the master key, recorded on everything encrypted under it
+  masterKey: Uint8Array;
+}
+
+interface UnlockedVault extends VaultKey {
+  userId: string;
+  pending: VaultKey | null; // Key being rotated to; new data is encrypted under it
+}
+
+let unlocked: UnlockedVault | null = null;
+
+// Whether the vault is unlocked (for a specific user, if given)
+export function isVaultUnlocked(userId?: string): boolean {
+  return unlocked !== null && (!userId || unlocked.userId === userId);
+}
+
+// Id of the master key new data is encrypted under (the pending key during a rotation)
+export function getVaultKeyId(): string {
+  if (!unlocked) throw new Error('Vault is locked');
+  return (unlocked.pending ?? unlocked).keyId;
+}
+
+// Whether data under a key id can still be decrypted; false for keys discarded by a reset
+export function hasVaultKey(keyId: string): boolean {
+  return [unlocked?.pending, unlocked].some(k => k && k.keyId === keyId);
+}
+
+// Whether a key rotation was started and has not been completed yet
+export function hasPendingRotation(): boolean {
+  return unlocked?.pending != null;
+}
+
+// Forget the unlocked master key
+export function lockVault(): void {
+  unlocked = null;
+}
+
+// Derive an AES-GCM subkey of a master key (the current one unless a key id is given)
+export async function deriveVaultKey(info: string, salt: Uint8Array, keyId?: string): Promise<CryptoKey> {
+  if (!unlocked) throw new Error('Vault is locked');
+  const key = [unlocked.pending, unlocked].find(k => k && k.keyId === (keyId ?? getVaultKeyId()));
+  if (!key) throw new Error('Data is encrypted under a different vault key');
+  return await deriveSubkey(key.masterKey, salt, info);
+}
+
+// Wrap a master key under a password (the PBKDF2 settings are recorded in the header)
+export async function wrapMasterKey(masterKey: Uint8Array, password: string): Promise<string> {
+  const params = { iterations: VAULT_KDF_ITERATIONS, salt: generateSalt() };
+  const wrapKey = await deriveKeyFromPassword(password, params.salt, params.iterations);
+  const wrapped = await encryptMessage(masterKey, wrapKey, {
+    kdfId: KdfId.PBKDF2_SHA256,
+    kdfParams: encodePbkdf2Params(params)
+  });
+  return arrayBufferToBase64(wrapped);
+}
+
+// Unwrap a master key with a password, or null if the password is wrong
+export async function unwrapMasterKey(wrappedKey: string, password: string): Promise<Uint8Array | null> {
+  try {
+    const masterKey = await decryptMessage(new Uint8Array(base64ToArrayBuffer(wrappedKey)), async (header) => {
+      if (header.kdfId !== KdfId.PBKDF2_SHA256) {
+        throw new Error(`Unsupported vault key derivation: ${header.kdfId}`);
+      }
+      const params = decodePbkdf2Params(header.kdfParams);
+      return await deriveKeyFromPassword(password, params.salt, params.iterations);
+    });
+    return new Uint8Array(masterKey);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'OperationError') return null;
+    throw error;
+  }
+}
+
+// Whether the user has set up a vault
+export async function hasVault(userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('user_vaults')
+    .select('id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+}
+
+// Generate a fresh master key and key id
+function newMasterKey(): { masterKey: Uint8Array; keyId: string } {
+  return {
+    masterKey: crypto.getRandomValues(new Uint8Array(32)),
+    keyId: arrayBufferToBase64(crypto.getRandomValues(new Uint8Array(8)))
+  };
+}
+
+// Wrap a key under high-entropy key material (recovery entropy, or another master key)
+// The material is already random, so HKDF is enough - no password stretching
+async function wrapUnderKeyMaterial(key: Uint8Array, material: Uint8Array, info: string): Promise<string> {
+  const params = { salt: generateSalt(), info };
+  const wrapKey = await deriveSubkey(material, params.salt, params.info);
+  const wrapped = await encryptMessage(key, wrapKey, {
+    kdfId: KdfId.HKDF_SHA256,
+    kdfParams: encodeHkdfParams(params)
+  });
+  return arrayBufferToBase64(wrapped);
+}
+
+// Unwrap a key written by wrapUnderKeyMaterial
+async function unwrapUnderKeyMaterial(wrappedKey: string, material: Uint8Array): Promise<Uint8Array> {
+  const key = await decryptMessage(new Uint8Array(base64ToArrayBuffer(wrappedKey)), async (header) => {
+    if (header.kdfId !== KdfId.HKDF_SHA256) {
+      throw new Error(`Unsupported key derivation for wrapped key: ${header.kdfId}`);
+    }
+    const params = decodeHkdfParams(header.kdfParams);
+    return await deriveSubkey(material, params.salt, params.info);
+  });
+  return new Uint8Array(key);
+}
+
+// Unwrap the pending rotation key, if a rotation is in progress
+async function loadPendingKey(
+  masterKey: Uint8Array,
+  pendingKeyId: string | null,
+  pendingWrappedKey: string | null
+): Promise<VaultKey | null> {
+  if (!pendingKeyId || !pendingWrappedKey) return null;
+  return { keyId: pendingKeyId, masterKey: await unwrapUnderKeyMaterial(pendingWrappedKey, masterKey) };
+}
+
+// Create a vault with a fresh master key and leave it unlocked
+export async function createVault(userId: string, password: string): Promise<void> {
+  const { masterKey, keyId } = newMasterKey();
+
+  const { error } = await supabase
+    .from('user_vaults')
+    .insert({
+      user_id: userId,
+      key_id: keyId,
+      wrapped_master_key: await wrapMasterKey(masterKey, password)
+    });
+
+  if (error) throw error;
+  unlocked = { userId, keyId, masterKey, pending: null };
+}
+
+// Unlock the vault with the user's password; false if the password is wrong
+export async function unlockVault(userId: string, password: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('user_vaults')
+    .select('key_id, wrapped_master_key, pending_key_id, pending_wrapped_key')
+    .eq('user_id', userId)
+    .single();
+
+  if (error) throw error;
+
+  const masterKey = await unwrapMasterKey(data.wrapped_master_key, password);
+  if (!masterKey) return false;
+
+  const pending = await loadPendingKey(masterKey, data.pending_key_id, data.pending_wrapped_key);
+  unlocked = { userId, keyId: data.key_id, masterKey, pending };
+  return true;
+}
+
+// Check a password against the vault without changing what is unlocked
+export async function verifyVaultPassword(userId: string, password: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('user_vaults')
+    .select('wrapped_master_key')
+    .eq('user_id', userId)
+    .single();
+
+  if (error) throw error;
+  return (await unwrapMasterKey(data.wrapped_master_key, password)) !== null;
+}
+
+// Whether the user's vault still needs a recovery phrase
+export async function needsRecoveryPhrase(userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('user_vaults')
+    .select('recovery_wrapped_key')
+    .eq('user_id', userId)
+    .single();
+
+  if (error) throw error;
+  return !data.recovery_wrapped_key;
+}
+
+// Issue a new recovery phrase for the unlocked vault, replacing any earlier one
+// Returns the phrase, which must be shown to the user since it can't be recovered later
+export async function setupRecoveryPhrase(userId: string): Promise<string> {
+  if (!unlocked || unlocked.userId !== userId) throw new Error('Vault is locked');
+
+  const { phrase, entropy } = await generateRecoveryPhrase();
+  const { error } = await supabase
+    .from('user_vaults')
+    .update({ recovery_wrapped_key: await wrapUnderKeyMaterial(unlocked.masterKey, entropy, RECOVERY_WRAP_INFO) })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return phrase;
+}
+
+// Unlock the vault with the recovery phrase instead of the password
+export async function recoverVault(userId: string, phrase: string): Promise<void> {
+  const entropy = await parseRecoveryPhrase(phrase);
+
+  const { data, error } = await supabase
+    .from('user_vaults')
+    .select('key_id, recovery_wrapped_key, pending_key_id, pending_wrapped_key')
+    .eq('user_id', userId)
+    .single();
+
+  if (error) throw error;
+  if (!data.recovery_wrapped_key) {
+    throw new Error('No recovery phrase was set up for this account');
+  }
+
+  let masterKey: Uint8Array;
+  try {
+    masterKey = await unwrapUnderKeyMaterial(data.recovery_wrapped_key, entropy);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'OperationError') {
+      throw new Error('Recovery phrase does not match this account');
+    }
+    throw error;
+  }
+
+  const pending = await loadPendingKey(masterKey, data.pending_key_id, data.pending_wrapped_key);
+  unlocked = { userId, keyId: data.key_id, masterKey, pending };
+}
+
+// Re-wrap the unlocked master key under a new password
+export async function changeVaultPassword(userId: string, newPassword: string): Promise<void> {
+  if (!unlocked || unlocked.userId !== userId) throw new Error('Vault is locked');
+
+  const { error } = await supabase
+    .from('user_vaults')
+    .update({ wrapped_master_key: await wrapMasterKey(unlocked.masterKey, newPassword) })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+// Replace the vault with an empty one under a new master key, leaving it unlocked
+// Everything encrypted under the old key becomes unreadable - only for lost recovery phrases
+export async function resetVault(userId: string, password: string): Promise<void> {
+  const { masterKey, keyId } = newMasterKey();
+
+  const { error } = await supabase
+    .from('user_vaults')
+    .upsert({
+      user_id: userId,
+      key_id: keyId,
+      wrapped_master_key: await wrapMasterKey(masterKey, password),
+      recovery_wrapped_key: null,
+      pending_key_id: null,
+      pending_wrapped_key: null,
+      // New identity keypairs are created on the next unlock
+      encrypted_private_key: null,
+      encrypted_signing_key: null
+    }, {
+      onConflict: 'user_id'
+    });
+
+  if (error) throw error;
+  unlocked = { userId, keyId, masterKey, pending: null };
+}
+
+// Start rotating to a new master key (no-op if a rotation is already pending)
+// The new key is stored wrapped under the current one until completeKeyRotation
+export async function startKeyRotation(userId: string): Promise<void> {
+  if (!unlocked || unlocked.userId !== userId) throw new Error('Vault is locked');
+  if (unlocked.pending) return;
+
+  const pending = newMasterKey();
+  const { error } = await supabase
+    .from('user_vaults')
+    .update({
+      pending_key_id: pending.keyId,
+      pending_wrapped_key: await wrapUnderKeyMaterial(pending.masterKey, unlocked.masterKey, ROTATION_WRAP_INFO)
+    })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  unlocked = { ...unlocked, pending };
+}
+
+// Make the pending key the vault key, once nothing is left encrypted under the old one
+// The old recovery phrase only opens the old key, so a new one is issued and returned
+export async function completeKeyRotation(userId: string, password: string): Promise<string> {
+  if (!unlocked || unlocked.userId !== userId) throw new Error('Vault is locked');
+  if (!unlocked.pending) throw new Error('No key rotation in progress');
+
+  const { keyId, masterKey } = unlocked.pending;
+  const { phrase, entropy } = await generateRecoveryPhrase();
+
+  const { error } = await supabase
+    .from('user_vaults')
+    .update({
+      key_id: keyId,
+      wrapped_master_key: await wrapMasterKey(masterKey, password),
+      recovery_wrapped_key: await wrapUnderKeyMaterial(masterKey, entropy, RECOVERY_WRAP_INFO),
+      pending_key_id: null,
+      pending_wrapped_key: null
+    })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  unlocked = { userId, keyId, masterKey, pending: null };
+  return phrase;
+}
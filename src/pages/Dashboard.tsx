@@ -1,15 +1,59 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Shield, LogOut } from "lucide-react";
+import { Shield, LogOut, RotateCcw, Fingerprint } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { FileUpload } from "@/components/FileUpload";
+import { PendingUploads } from "@/components/PendingUploads";
+import { SecretNoteForm } from "@/components/SecretNoteForm";
 import { FileList } from "@/components/FileList";
+import { SharedWithMe } from "@/components/SharedWithMe";
 import { ActivityLog } from "@/components/ActivityLog";
+import { KeyRotationDialog } from "@/components/KeyRotationDialog";
+import { useToast } from "@/hooks/use-toast";
+import { migrateLegacyFiles } from "@/lib/keyMigration";
+import { getOwnKeyFingerprint } from "@/lib/identity";
 
 export default function Dashboard() {
   const { user, signOut } = useAuth();
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [rotationOpen, setRotationOpen] = useState(false);
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!user) return;
+
+    // People sharing files with this account compare this against what their dialog shows
+    getOwnKeyFingerprint(user.id)
+      .then(setFingerprint)
+      .catch(error => console.error('Key fingerprint error:', error));
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    // Re-encrypt files uploaded before per-purpose subkeys (no-op once done)
+    migrateLegacyFiles(user.id)
+      .then(({ migrated, failed }) => {
+        if (migrated > 0) {
+          setRefreshTrigger(prev => prev + 1);
+          toast({
+            title: "Encryption upgraded",
+            description: `${migrated} file${migrated === 1 ? '' : 's'} re-encrypted with separate content and metadata keys.`
+          });
+        }
+        if (failed > 0) {
+          toast({
+            title: "Encryption upgrade incomplete",
+            description: `${failed} file${failed === 1 ? '' : 's'} could not be re-encrypted. We'll retry next time.`,
+            variant: "destructive"
+          });
+        }
+      })
+      .catch(error => console.error('Key migration error:', error));
+  }, [user, toast]);
 
   const handleUploadComplete = () => {
     // Trigger file list refresh
@@ -26,9 +70,24 @@ export default function Dashboard() {
             <span className="text-xl font-bold gradient-text">ZettlerShare</span>
           </div>
           <div className="flex items-center gap-4">
-            <span className="text-sm text-muted-foreground">
-              {user?.email}
-            </span>
+            <div className="text-right">
+              <span className="text-sm text-muted-foreground">
+                {user?.email}
+              </span>
+              {fingerprint && (
+                <p
+                  className="flex items-center justify-end gap-1 text-xs text-muted-foreground font-mono"
+                  title="Your key fingerprint - people sharing files with you should see the same one"
+                >
+                  <Fingerprint className="w-3 h-3" />
+                  {fingerprint}
+                </p>
+              )}
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setRotationOpen(true)}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Rotate Keys
+            </Button>
             <Button variant="outline" size="sm" onClick={signOut}>
               <LogOut className="w-4 h-4 mr-2" />
               Sign Out
@@ -46,19 +105,40 @@ export default function Dashboard() {
         </div>
 
         {/* File Upload Section */}
+        <Tabs defaultValue="file" className="mb-8">
+          <TabsList className="mb-4">
+            <TabsTrigger value="file">File</TabsTrigger>
+            <TabsTrigger value="note">Secret note</TabsTrigger>
+          </TabsList>
+          <TabsContent value="file">
+            <FileUpload onUploadComplete={handleUploadComplete} />
+          </TabsContent>
+          <TabsContent value="note">
+            <SecretNoteForm onNoteCreated={handleUploadComplete} />
+          </TabsContent>
+        </Tabs>
+
+        {/* Uploads Interrupted Before They Finished */}
         <div className="mb-8">
-          <FileUpload onUploadComplete={handleUploadComplete} />
+          <PendingUploads refreshTrigger={refreshTrigger} onUploadComplete={handleUploadComplete} />
         </div>
 
         {/* File List Section */}
         <FileList refreshTrigger={refreshTrigger} />
 
+        {/* Files Shared With This Account */}
+        <div className="mt-8 mb-8">
+          <SharedWithMe refreshTrigger={refreshTrigger} />
+        </div>
+
         {/* Activity Log Section */}
         <div className="mb-8">
           <ActivityLog />
         </div>
 
       </div>
+
+      <KeyRotationDialog open={rotationOpen} onOpenChange={setRotationOpen} />
     </div>
   );
 };
\ No newline at end of file
@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { ArrowLeft, Mail, AlertCircle, CheckCircle } from "lucide-react";
+import { ArrowLeft, Mail, AlertCircle, CheckCircle, KeyRound } from "lucide-react";
 import { Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
@@ -81,6 +81,15 @@ export default function ForgotPassword() {
 
             {!success ? (
               <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/20 flex items-start gap-2">
+                  <KeyRound className="w-4 h-4 text-yellow-500 mt-0.5 flex-shrink-0" />
+                  <p className="text-sm text-yellow-500">
+                    Have your recovery phrase ready. Your files are encrypted with a key only you
+                    hold, and after resetting you'll need the phrase to unlock it. Without it,
+                    your stored file keys and activity history can't be recovered, not even by us.
+                  </p>
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="email">Email</Label>
                   <Input
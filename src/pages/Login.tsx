@@ -7,6 +7,8 @@ import { Shield, Eye, EyeOff, AlertCircle } from "lucide-react";
 import { Link, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { signInWithAccountPassword } from "@/lib/authPassword";
 import logo from "/lovable-uploads/11d45449-ee74-4152-976e-03dd7cdd6e51.png";
 
 export default function Login() {
@@ -17,6 +19,7 @@ export default function Login() {
   const [error, setError] = useState("");
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { openVault } = useAuth();
 
   useEffect(() => {
     // Check if user is already logged in
@@ -58,10 +61,8 @@ export default function Login() {
         // Continue even if this fails
       }
 
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email,
-        password,
-      });
+      // Auth only ever sees a hash of the password; the vault is unlocked with the password itself
+      const { data, error } = await signInWithAccountPassword(email, password);
 
       if (error) {
         if (error.message.includes("Invalid login credentials")) {
@@ -75,12 +76,16 @@ export default function Login() {
       }
 
       if (data.user) {
+        // Unlock the vault while we still have the password (first sign-in creates it)
+        const vaultOpened = await openVault(password);
         toast({
           title: "Welcome back!",
-          description: "You have successfully signed in.",
+          description: vaultOpened
+            ? "You have successfully signed in."
+            : "Signed in, but your vault could not be unlocked with this password.",
         });
-        // Force page reload for clean state
-        window.location.href = "/dashboard";
+        // No full reload here - it would drop the unlocked vault key from memory
+        navigate("/dashboard");
       }
     } catch (error: any) {
       setError("An unexpected error occurred. Please try again.");
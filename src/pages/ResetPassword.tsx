@@ -2,11 +2,16 @@ import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Shield, Eye, EyeOff, AlertCircle, CheckCircle } from "lucide-react";
+import { Shield, Eye, EyeOff, AlertCircle, CheckCircle, KeyRound } from "lucide-react";
 import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { hasVault, recoverVault, changeVaultPassword, resetVault, lockVault } from "@/lib/vault";
+import { SecureDataManager } from "@/lib/secureDataManager";
+import { deriveAuthPassword, AUTH_PASSWORD_DERIVED_FLAG } from "@/lib/authPassword";
 import logo from "/lovable-uploads/11d45449-ee74-4152-976e-03dd7cdd6e51.png";
 
 export default function ResetPassword() {
@@ -17,6 +22,11 @@ export default function ResetPassword() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [success, setSuccess] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [email, setEmail] = useState<string | null>(null);
+  const [vaultExists, setVaultExists] = useState(false);
+  const [recoveryPhrase, setRecoveryPhrase] = useState("");
+  const [lostPhrase, setLostPhrase] = useState(false);
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -28,6 +38,19 @@ export default function ResetPassword() {
       if (error) {
         setError("Invalid or expired reset link. Please request a new one.");
         console.error("Reset password error:", error);
+        return;
+      }
+
+      // Accounts with a vault need their recovery phrase to re-wrap the vault key
+      const sessionUserId = data.session?.user.id;
+      setEmail(data.session?.user.email ?? null);
+      if (sessionUserId) {
+        setUserId(sessionUserId);
+        try {
+          setVaultExists(await hasVault(sessionUserId));
+        } catch (err) {
+          console.error("Vault lookup error:", err);
+        }
       }
     };
 
@@ -51,9 +74,31 @@ export default function ResetPassword() {
       return;
     }
 
+    if (vaultExists && !lostPhrase && !recoveryPhrase.trim()) {
+      setError("Enter your recovery phrase, or confirm that you have lost it.");
+      setLoading(false);
+      return;
+    }
+
     try {
+      // Check the recovery phrase before touching the password, so a typo can't strand the vault
+      if (vaultExists && userId && !lostPhrase) {
+        try {
+          await recoverVault(userId, recoveryPhrase);
+        } catch (err) {
+          setError((err as Error).message);
+          return;
+        }
+      }
+
+      if (!email) {
+        setError("Invalid or expired reset link. Please request a new one.");
+        return;
+      }
+
       const { error } = await supabase.auth.updateUser({
-        password: password
+        password: await deriveAuthPassword(email, password),
+        data: { [AUTH_PASSWORD_DERIVED_FLAG]: true }
       });
 
       if (error) {
@@ -61,6 +106,16 @@ export default function ResetPassword() {
         return;
       }
 
+      // Re-wrap the vault key under the new password, or start an empty vault
+      if (vaultExists && userId) {
+        if (lostPhrase) {
+          await resetVault(userId, password);
+          await SecureDataManager.storeEncryptedFileList(userId, []);
+        } else {
+          await changeVaultPassword(userId, password);
+        }
+      }
+
       setSuccess(true);
       toast({
         title: "Password updated!",
@@ -75,6 +130,8 @@ export default function ResetPassword() {
       setError("An unexpected error occurred. Please try again.");
       console.error("Password update error:", error);
     } finally {
+      // The vault is unlocked again from the sign-in page with the new password
+      lockVault();
       setLoading(false);
     }
   };
@@ -172,6 +229,54 @@ export default function ResetPassword() {
                   </div>
                 </div>
 
+                {vaultExists && (
+                  <div className="space-y-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="recoveryPhrase" className="flex items-center gap-2">
+                        <KeyRound className="w-4 h-4" />
+                        Recovery Phrase
+                      </Label>
+                      <Textarea
+                        id="recoveryPhrase"
+                        placeholder="The 17 words you saved when you set up your account"
+                        value={recoveryPhrase}
+                        onChange={(e) => setRecoveryPhrase(e.target.value)}
+                        disabled={lostPhrase}
+                        autoComplete="off"
+                        spellCheck={false}
+                        className="bg-input/50 font-mono"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Your files are encrypted with a key only you hold. The recovery phrase
+                        lets us re-lock that key under your new password.
+                      </p>
+                    </div>
+
+                    <div className="flex items-start gap-2">
+                      <Checkbox
+                        id="lostPhrase"
+                        checked={lostPhrase}
+                        onCheckedChange={(checked) => setLostPhrase(checked === true)}
+                        className="mt-0.5"
+                      />
+                      <Label htmlFor="lostPhrase" className="text-sm font-normal leading-snug">
+                        I have lost my recovery phrase. Reset my vault anyway.
+                      </Label>
+                    </div>
+
+                    {lostPhrase && (
+                      <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/20 flex items-start gap-2">
+                        <AlertCircle className="w-4 h-4 text-destructive mt-0.5 flex-shrink-0" />
+                        <p className="text-sm text-destructive">
+                          Without the recovery phrase your stored file keys and activity history
+                          are permanently lost. Your files will disappear from your dashboard and
+                          can't be opened from it. Links you have already shared keep working.
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 <Button type="submit" className="w-full security-glow" disabled={loading}>
                   <Shield className="w-4 h-4 mr-2" />
                   {loading ? "Updating Password..." : "Update Password"}
@@ -7,6 +7,7 @@ import { Shield, Eye, EyeOff, CheckCircle, AlertCircle } from "lucide-react";
 import { Link, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { deriveAuthPassword, AUTH_PASSWORD_DERIVED_FLAG } from "@/lib/authPassword";
 import logo from "/lovable-uploads/11d45449-ee74-4152-976e-03dd7cdd6e51.png";
 
 export default function Signup() {
@@ -102,9 +103,10 @@ export default function Signup() {
       
       const { data, error } = await supabase.auth.signUp({
         email: formData.email,
-        password: formData.password,
+        password: await deriveAuthPassword(formData.email, formData.password),
         options: {
-          emailRedirectTo: redirectUrl
+          emailRedirectTo: redirectUrl,
+          data: { [AUTH_PASSWORD_DERIVED_FLAG]: true }
         }
       });
 
@@ -0,0 +1,37 @@
+// Worker side of cryptoWorker.ts: runs a single encrypt or decrypt request and reports progress
+
+import { encryptBlob, decryptFile } from '@/lib/encryption';
+import type { CryptoWorkerRequest, CryptoWorkerResponse } from '@/lib/cryptoWorker';
+
+// Progress events are throttled; the page only needs a few updates a second
+const PROGRESS_INTERVAL_MS = 100;
+
+let lastProgressAt = 0;
+
+const post = (message: CryptoWorkerResponse) => self.postMessage(message);
+
+const onProgress = (done: number, total: number) => {
+  const now = Date.now();
+  if (done < total && now - lastProgressAt < PROGRESS_INTERVAL_MS) return;
+  lastProgressAt = now;
+  post({ type: 'progress', done, total });
+};
+
+self.onmessage = async (event: MessageEvent<CryptoWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    let result: unknown;
+    switch (request.op) {
+      case 'encryptBlob':
+        result = await encryptBlob(request.source, request.metadata, request.key, onProgress, request.compress);
+        break;
+      case 'decrypt':
+        result = await decryptFile(request.encryptedFile, request.encryptedMetadata, request.key, request.iv, onProgress);
+        break;
+    }
+    post({ type: 'result', result });
+  } catch (error) {
+    post({ type: 'error', message: (error as Error).message || 'Encryption failed' });
+  }
+};
@@ -0,0 +1,93 @@
+// Claim a download of a file by its ID
+// Checks expiry and the download limit and counts the download in one step (see the
+// claim_download SQL function), then returns a short-lived signed URL for the ciphertext along
+// with its encrypted metadata. Anyone holding a link may call this; file keys never reach it.
+// The bucket has no public reads, so this is the only way in for recipients, and claims are
+// rate limited per file. Claims through a share link carry a token derived from the link
+// secret; once a file has share links, claims without one only work for the owner and for
+// accounts the file is shared with directly, so the caller's session is passed along.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const BUCKET = 'encrypted-files';
+
+// Seconds; long enough to get past a save dialog, too short to be worth passing around
+const SIGNED_URL_TTL = 300;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  let fileId: unknown;
+  let linkId: unknown;
+  let linkToken: unknown;
+  try {
+    ({ fileId, linkId, linkToken } = await req.json());
+  } catch {
+    return json({ error: 'Invalid request body' }, 400);
+  }
+  if (typeof fileId !== 'string' || !/^[0-9a-f]{1,128}$/i.test(fileId)) {
+    return json({ status: 'not_found' });
+  }
+  // Downloads through a share link are counted against the link too
+  if (linkId !== undefined && linkId !== null
+      && (typeof linkId !== 'string' || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(linkId))) {
+    return json({ status: 'not_found' });
+  }
+  if (linkToken !== undefined && linkToken !== null
+      && (typeof linkToken !== 'string' || linkToken.length > 128)) {
+    return json({ status: 'not_found' });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  // Anonymous callers send the anon key here, which resolves to no user
+  const jwt = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const { data: { user } } = jwt ? await supabase.auth.getUser(jwt) : { data: { user: null } };
+
+  const { data: claim, error: claimError } = await supabase
+    .rpc('claim_download', {
+      p_file_id: fileId,
+      p_link_id: linkId ?? null,
+      p_link_token: linkToken ?? null,
+      p_user_id: user?.id ?? null
+    })
+    .single();
+
+  if (claimError) {
+    console.error('claim_download failed:', claimError);
+    return json({ error: 'Could not claim the download' }, 500);
+  }
+  if (claim.status !== 'ok') return json({ status: claim.status });
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrl(claim.object_path, SIGNED_URL_TTL);
+
+  if (signError) {
+    // The download has been counted already; the recipient will have to ask for another
+    console.error('Signing download URL failed:', signError);
+    return json({ error: 'Could not create a download URL' }, 500);
+  }
+
+  return json({
+    status: 'ok',
+    signedUrl: signed.signedUrl,
+    encryptedMetadata: claim.metadata,
+    downloadCount: claim.downloads
+  });
+});
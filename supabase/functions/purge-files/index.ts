@@ -0,0 +1,96 @@
+// Purge files that have expired or used up their downloads
+// Lists them with purgeable_files, removes their storage objects and then drops the rows with
+// finish_purge, which logs the purge for each owner (see the migration that adds them). A file
+// whose objects couldn't be removed keeps its row and is picked up again on the next run, so a
+// failed run never leaves a row pointing at nothing. Runs hourly from pg_cron; only callable
+// with the service role key.
+//
+// Against a local stack:
+//   supabase start
+//   supabase functions serve purge-files
+//   curl -X POST http://127.0.0.1:54321/functions/v1/purge-files \
+//     -H "Authorization: Bearer $SERVICE_ROLE_KEY" -H 'Content-Type: application/json' -d '{}'
+// Pass {"dryRun": true} to list what would go without deleting anything.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const BUCKET = 'encrypted-files';
+
+// Files handled per run, and objects per storage remove call
+const MAX_FILES_PER_RUN = 500;
+const REMOVE_BATCH_SIZE = 100;
+
+interface PurgeableFile {
+  file_id: string;
+  user_id: string;
+  storage_path: string;
+  reason: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  let dryRun = false;
+  try {
+    ({ dryRun = false } = await req.json());
+  } catch {
+    // An empty body is a normal run
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+  const { data, error: listError } = await supabase.rpc('purgeable_files', { p_limit: MAX_FILES_PER_RUN });
+  if (listError) {
+    console.error('Listing purgeable files failed:', listError);
+    return json({ error: 'Could not list purgeable files' }, 500);
+  }
+
+  const files = (data ?? []) as PurgeableFile[];
+  if (dryRun) {
+    return json({ dryRun: true, files: files.map(({ file_id, reason }) => ({ fileId: file_id, reason })) });
+  }
+
+  let purged = 0;
+  let failed = 0;
+
+  for (let i = 0; i < files.length; i += REMOVE_BATCH_SIZE) {
+    const batch = files.slice(i, i + REMOVE_BATCH_SIZE);
+
+    // Objects that are already gone don't count as errors, so a retried batch goes through
+    const { error: removeError } = await supabase.storage
+      .from(BUCKET)
+      .remove(batch.map(file => file.storage_path));
+
+    if (removeError) {
+      console.error('Removing storage objects failed:', removeError);
+      failed += batch.length;
+      continue;
+    }
+
+    const { data: count, error: finishError } = await supabase.rpc('finish_purge', {
+      p_file_ids: batch.map(file => file.file_id),
+      p_reasons: batch.map(file => file.reason)
+    });
+
+    if (finishError) {
+      console.error('Deleting purged rows failed:', finishError);
+      failed += batch.length;
+      continue;
+    }
+    purged += count ?? 0;
+  }
+
+  console.log(`Purged ${purged} file(s), ${failed} left for the next run`);
+  return json({ purged, failed });
+});
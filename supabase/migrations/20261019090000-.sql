@@ -0,0 +1,5 @@
+-- Raise the encrypted-files bucket limit now that uploads use the chunked
+-- streaming format and no longer need to fit in browser memory (2 GB)
+UPDATE storage.buckets
+SET file_size_limit = 2147483648
+WHERE id = 'encrypted-files';
@@ -0,0 +1,7 @@
+-- Allow owners to overwrite their own storage objects
+-- Needed to re-encrypt legacy uploads in place under per-purpose subkeys
+CREATE POLICY "Users can update their own encrypted files"
+ON storage.objects
+FOR UPDATE
+USING (bucket_id = 'encrypted-files' AND auth.uid()::text = (storage.foldername(name))[1])
+WITH CHECK (bucket_id = 'encrypted-files' AND auth.uid()::text = (storage.foldername(name))[1]);
@@ -0,0 +1,80 @@
+-- Password-protected share links
+-- The file key is wrapped client-side under a key derived from the share password and a
+-- secret carried in the link. The server only stores the wrapped key and a hash of an
+-- auth token derived from the same inputs, and releases the wrapped key when the token
+-- matches. Failed attempts are counted here so a leaked link can't be guessed through the UI.
+ALTER TABLE public.encrypted_files
+  ADD COLUMN share_kdf_params TEXT,
+  ADD COLUMN share_wrapped_key TEXT,
+  ADD COLUMN share_auth_hash TEXT,
+  ADD COLUMN share_failed_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN share_locked_until TIMESTAMP WITH TIME ZONE;
+
+-- KDF parameters (salt and iteration count) for a password-protected file, or NULL
+-- They are not secret, the client needs them before it can derive the auth token
+CREATE OR REPLACE FUNCTION public.get_share_kdf_params(p_file_id text)
+RETURNS text
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT share_kdf_params
+  FROM public.encrypted_files
+  WHERE file_id = p_file_id
+    AND (expires_at IS NULL OR expires_at > now());
+$$;
+
+-- Release the wrapped file key if the auth token matches
+-- Every 5 consecutive failures lock the link for 15 minutes; after 20 it stays locked
+-- until the owner sets a new password
+CREATE OR REPLACE FUNCTION public.unlock_password_share(p_file_id text, p_auth_token text)
+RETURNS TABLE(status text, wrapped_key text, attempts_remaining integer)
+LANGUAGE plpgsql
+VOLATILE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  file_record RECORD;
+  failures INTEGER;
+BEGIN
+  SELECT ef.share_wrapped_key, ef.share_auth_hash, ef.share_failed_attempts, ef.share_locked_until
+  INTO file_record
+  FROM public.encrypted_files ef
+  WHERE ef.file_id = p_file_id
+    AND ef.share_auth_hash IS NOT NULL
+    AND (ef.expires_at IS NULL OR ef.expires_at > now())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::text, NULL::text, 0;
+    RETURN;
+  END IF;
+
+  IF file_record.share_failed_attempts >= 20
+     OR (file_record.share_locked_until IS NOT NULL AND file_record.share_locked_until > now()) THEN
+    RETURN QUERY SELECT 'locked'::text, NULL::text, 0;
+    RETURN;
+  END IF;
+
+  IF encode(digest(p_auth_token, 'sha256'), 'hex') = file_record.share_auth_hash THEN
+    UPDATE public.encrypted_files
+    SET share_failed_attempts = 0, share_locked_until = NULL
+    WHERE file_id = p_file_id;
+
+    RETURN QUERY SELECT 'ok'::text, file_record.share_wrapped_key, 5;
+    RETURN;
+  END IF;
+
+  failures := file_record.share_failed_attempts + 1;
+  UPDATE public.encrypted_files
+  SET share_failed_attempts = failures,
+      share_locked_until = CASE WHEN failures % 5 = 0 THEN now() + interval '15 minutes' ELSE NULL END
+  WHERE file_id = p_file_id;
+
+  IF failures % 5 = 0 THEN
+    RETURN QUERY SELECT 'locked'::text, NULL::text, 0;
+  ELSE
+    RETURN QUERY SELECT 'invalid'::text, NULL::text, 5 - failures % 5;
+  END IF;
+END;
+$function$;
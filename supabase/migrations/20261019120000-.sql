@@ -0,0 +1,40 @@
+-- User-held vault keys
+-- Each user has a random master key, wrapped client-side under a key derived from their
+-- password. The server only ever sees the wrapped blob.
+CREATE TABLE public.user_vaults (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE,
+  key_id TEXT NOT NULL,
+  wrapped_master_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_vaults ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own vault"
+ON public.user_vaults
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own vault"
+ON public.user_vaults
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own vault"
+ON public.user_vaults
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_vaults_updated_at
+BEFORE UPDATE ON public.user_vaults
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Allow users to re-encrypt their own audit log entries under their vault key
+CREATE POLICY "Users can update their own audit logs"
+ON public.encrypted_audit_logs
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,5 @@
+-- Recovery phrases
+-- A second copy of the vault master key, wrapped client-side under a key derived from the
+-- user's recovery phrase, so a forgotten password doesn't make their data unreadable
+ALTER TABLE public.user_vaults
+  ADD COLUMN recovery_wrapped_key TEXT;
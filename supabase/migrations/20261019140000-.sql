@@ -0,0 +1,6 @@
+-- Vault key rotation
+-- While a rotation is in progress the new master key is kept here, wrapped client-side
+-- under the current one, so an interrupted rotation can be resumed on the next unlock
+ALTER TABLE public.user_vaults
+  ADD COLUMN pending_key_id TEXT,
+  ADD COLUMN pending_wrapped_key TEXT;
@@ -0,0 +1,110 @@
+-- Direct sharing between accounts
+-- Every account has an ECDH P-256 keypair. The public key is published on the profile; the
+-- private key is stored encrypted under the user's vault key. Sharing a file to another
+-- account wraps its file key to the recipient's public key, so no link has to be sent.
+ALTER TABLE public.profiles
+  ADD COLUMN public_key TEXT;
+
+ALTER TABLE public.user_vaults
+  ADD COLUMN encrypted_private_key TEXT;
+
+-- Expose the public key alongside the other public profile fields
+DROP FUNCTION IF EXISTS public.get_public_profile(uuid);
+CREATE FUNCTION public.get_public_profile(profile_user_id uuid)
+RETURNS TABLE(id uuid, full_name text, avatar_url text, public_key text)
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT
+    p.id,
+    p.full_name,
+    p.avatar_url,
+    p.public_key
+  FROM public.profiles p
+  WHERE p.user_id = profile_user_id;
+$$;
+
+-- Publish the caller's public key, creating their profile row if it doesn't exist yet
+CREATE OR REPLACE FUNCTION public.set_public_key(p_public_key text)
+RETURNS void
+LANGUAGE plpgsql
+VOLATILE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.profiles SET public_key = p_public_key WHERE user_id = auth.uid();
+  IF NOT FOUND THEN
+    INSERT INTO public.profiles (user_id, email, public_key)
+    VALUES (auth.uid(), auth.email(), p_public_key);
+  END IF;
+END;
+$function$;
+
+-- Look up a registered user to share with by exact email address
+-- Only returns accounts that have published a public key
+CREATE OR REPLACE FUNCTION public.find_user_by_email(p_email text)
+RETURNS TABLE(user_id uuid, full_name text, public_key text)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT p.user_id, p.full_name, p.public_key
+  FROM public.profiles p
+  WHERE auth.uid() IS NOT NULL
+    AND lower(p.email) = lower(trim(p_email))
+    AND p.public_key IS NOT NULL
+  LIMIT 1;
+$$;
+
+CREATE TABLE public.file_shares (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id TEXT NOT NULL REFERENCES public.encrypted_files(file_id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL,
+  recipient_id UUID NOT NULL,
+  recipient_email TEXT NOT NULL,
+  wrapped_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (file_id, recipient_id)
+);
+
+ALTER TABLE public.file_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners and recipients can view shares"
+ON public.file_shares
+FOR SELECT
+USING (auth.uid() = owner_id OR auth.uid() = recipient_id);
+
+CREATE POLICY "Owners can share their own files"
+ON public.file_shares
+FOR INSERT
+WITH CHECK (
+  auth.uid() = owner_id
+  AND EXISTS (
+    SELECT 1 FROM public.encrypted_files ef
+    WHERE ef.file_id = file_shares.file_id AND ef.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Owners and recipients can remove shares"
+ON public.file_shares
+FOR DELETE
+USING (auth.uid() = owner_id OR auth.uid() = recipient_id);
+
+CREATE INDEX idx_file_shares_recipient_id ON public.file_shares(recipient_id);
+
+-- Recipients need the encrypted metadata and storage path of files shared with them
+CREATE POLICY "Recipients can view files shared with them"
+ON public.encrypted_files
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.file_shares fs
+    WHERE fs.file_id = encrypted_files.file_id AND fs.recipient_id = auth.uid()
+  )
+);
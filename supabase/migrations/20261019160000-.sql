@@ -0,0 +1,45 @@
+-- Sender signatures on uploads
+-- Every account gets an ECDSA P-256 signing keypair next to its sharing keypair. Owners sign
+-- each upload's ciphertext and encrypted metadata, and the download page verifies the
+-- signature against the signing key published on the owner's profile.
+ALTER TABLE public.profiles
+  ADD COLUMN signing_public_key TEXT;
+
+ALTER TABLE public.user_vaults
+  ADD COLUMN encrypted_signing_key TEXT;
+
+ALTER TABLE public.encrypted_files
+  ADD COLUMN signature TEXT;
+
+-- Publish the caller's signing public key, creating their profile row if it doesn't exist yet
+CREATE OR REPLACE FUNCTION public.set_signing_key(p_signing_key text)
+RETURNS void
+LANGUAGE plpgsql
+VOLATILE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE public.profiles SET signing_public_key = p_signing_key WHERE user_id = auth.uid();
+  IF NOT FOUND THEN
+    INSERT INTO public.profiles (user_id, email, signing_public_key)
+    VALUES (auth.uid(), auth.email(), p_signing_key);
+  END IF;
+END;
+$function$;
+
+-- Signature of a file with the signer's display name and signing key, for anyone holding its link
+CREATE OR REPLACE FUNCTION public.get_file_signer(p_file_id text)
+RETURNS TABLE(signature text, full_name text, signing_public_key text)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT ef.signature, p.full_name, p.signing_public_key
+  FROM public.encrypted_files ef
+  LEFT JOIN public.profiles p ON p.user_id = ef.user_id
+  WHERE ef.file_id = p_file_id;
+$$;
@@ -0,0 +1,5 @@
+-- Stop keeping plaintext file details next to the ciphertext
+-- New uploads store only their padded size (a size bucket) in file_size and leave mime_type
+-- empty; the real size and type live only in the encrypted metadata. Clear the MIME types
+-- recorded by earlier uploads as well.
+UPDATE public.encrypted_files SET mime_type = NULL WHERE mime_type IS NOT NULL;
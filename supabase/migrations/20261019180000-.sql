@@ -0,0 +1,49 @@
+-- Server-side download claiming
+-- Expiry and download limits used to be checked by the downloading browser, and the count was
+-- bumped by a client update that recipients aren't allowed to make. claim_download checks both
+-- and counts the download in a single UPDATE, so concurrent downloads can't overshoot the limit.
+-- Only the service role may call it: the claim-download edge function does, and then hands out
+-- a short-lived signed URL for the ciphertext.
+CREATE OR REPLACE FUNCTION public.claim_download(p_file_id text)
+RETURNS TABLE(status text, object_path text, metadata text, downloads integer)
+LANGUAGE plpgsql
+VOLATILE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  claimed RECORD;
+  file_record RECORD;
+BEGIN
+  UPDATE public.encrypted_files ef
+  SET download_count = ef.download_count + 1
+  WHERE ef.file_id = p_file_id
+    AND (ef.expires_at IS NULL OR ef.expires_at > now())
+    AND (ef.max_downloads IS NULL OR ef.download_count < ef.max_downloads)
+  RETURNING ef.storage_path,
+            COALESCE(ef.encrypted_metadata->>'encryptedMetadata', ef.encrypted_filename) AS encrypted_metadata,
+            ef.download_count
+  INTO claimed;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT 'ok'::text, claimed.storage_path, claimed.encrypted_metadata, claimed.download_count;
+    RETURN;
+  END IF;
+
+  -- Nothing was claimed; tell the caller why
+  SELECT ef.expires_at
+  INTO file_record
+  FROM public.encrypted_files ef
+  WHERE ef.file_id = p_file_id;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::text, NULL::text, NULL::text, NULL::integer;
+  ELSIF file_record.expires_at IS NOT NULL AND file_record.expires_at <= now() THEN
+    RETURN QUERY SELECT 'expired'::text, NULL::text, NULL::text, NULL::integer;
+  ELSE
+    RETURN QUERY SELECT 'limit_reached'::text, NULL::text, NULL::text, NULL::integer;
+  END IF;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_download(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_download(text) TO service_role;
@@ -0,0 +1,91 @@
+-- Scheduled purge of expired and exhausted files
+-- Files past expires_at, or that have used up max_downloads, used to stay in storage and in
+-- encrypted_files for good. The purge-files edge function lists them with purgeable_files,
+-- removes their storage objects and then drops the rows with finish_purge, which also leaves a
+-- purge entry in each owner's audit trail. Both functions are for the service role only.
+
+-- Files due for purging, oldest first
+-- Exhausted files are held back for an hour after their last download (the claim bumps
+-- updated_at), so a transfer that was claimed just before the limit can still finish.
+CREATE OR REPLACE FUNCTION public.purgeable_files(p_limit integer DEFAULT 500)
+RETURNS TABLE(file_id text, user_id uuid, storage_path text, reason text)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT ef.file_id,
+         ef.user_id,
+         ef.storage_path,
+         CASE WHEN ef.expires_at IS NOT NULL AND ef.expires_at <= now() THEN 'expired' ELSE 'limit_reached' END
+  FROM public.encrypted_files ef
+  WHERE (ef.expires_at IS NOT NULL AND ef.expires_at <= now())
+     OR (ef.max_downloads IS NOT NULL
+         AND ef.download_count >= ef.max_downloads
+         AND ef.updated_at <= now() - interval '1 hour')
+  ORDER BY ef.created_at
+  LIMIT p_limit;
+END;
+$function$;
+
+-- Drop the rows of files whose storage objects are gone and log a purge for each owner
+-- Audit entries are written in the clear: the server can't encrypt under the owner's vault key,
+-- and they hold nothing it doesn't already know (the file ID and why it went)
+CREATE OR REPLACE FUNCTION public.finish_purge(p_file_ids text[], p_reasons text[])
+RETURNS integer
+LANGUAGE plpgsql
+VOLATILE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  purged integer;
+BEGIN
+  WITH deleted AS (
+    DELETE FROM public.encrypted_files ef
+    WHERE ef.file_id = ANY(p_file_ids)
+    RETURNING ef.file_id, ef.user_id
+  ), logged AS (
+    INSERT INTO public.encrypted_audit_logs (user_id, log_type, encrypted_log_entry)
+    SELECT d.user_id,
+           'purge',
+           jsonb_build_object(
+             'action', 'purge',
+             'timestamp', now(),
+             'data', jsonb_build_object('fileId', d.file_id, 'reason', r.reason)
+           )::text
+    FROM deleted d
+    JOIN unnest(p_file_ids, p_reasons) AS r(file_id, reason) ON r.file_id = d.file_id
+    RETURNING 1
+  )
+  SELECT count(*) INTO purged FROM logged;
+
+  RETURN purged;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.purgeable_files(integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.finish_purge(text[], text[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purgeable_files(integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.finish_purge(text[], text[]) TO service_role;
+
+-- Run the purge hourly
+-- The project URL and service role key are read from Vault secrets named project_url and
+-- service_role_key, which have to be created once per project (and per local stack)
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'purge-files',
+  '17 * * * *',
+  $cron$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/purge-files',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $cron$
+);
@@ -0,0 +1,38 @@
+-- Shared-file lookup for recipients
+-- encrypted_files is only readable by owners and direct-share recipients, so a link recipient
+-- (often not signed in at all) had no way to read a file's encrypted metadata before
+-- downloading it. get_shared_file returns just what the download page needs: whether the file
+-- can still be downloaded, its encrypted metadata and its padded size. Never the owner or the
+-- storage path, and it counts nothing; downloads are claimed through claim_download.
+CREATE OR REPLACE FUNCTION public.get_shared_file(p_file_id text)
+RETURNS TABLE(status text, encrypted_metadata text, padded_size bigint)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  file_record RECORD;
+BEGIN
+  SELECT ef.expires_at,
+         ef.max_downloads,
+         ef.download_count,
+         ef.file_size,
+         COALESCE(ef.encrypted_metadata->>'encryptedMetadata', ef.encrypted_filename) AS encrypted_metadata
+  INTO file_record
+  FROM public.encrypted_files ef
+  WHERE ef.file_id = p_file_id;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::text, NULL::text, NULL::bigint;
+  ELSIF file_record.expires_at IS NOT NULL AND file_record.expires_at <= now() THEN
+    RETURN QUERY SELECT 'expired'::text, NULL::text, NULL::bigint;
+  ELSIF file_record.max_downloads IS NOT NULL AND file_record.download_count >= file_record.max_downloads THEN
+    RETURN QUERY SELECT 'limit_reached'::text, NULL::text, NULL::bigint;
+  ELSE
+    RETURN QUERY SELECT 'available'::text, file_record.encrypted_metadata, file_record.file_size;
+  END IF;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.get_shared_file(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_shared_file(text) TO anon, authenticated;
@@ -0,0 +1,82 @@
+-- No more public reads of encrypted-files
+-- "Allow public downloads of encrypted files" (and the older "Public access to encrypted files
+-- via file_id") let anyone read and list every object in the bucket, and object names are
+-- ${user_id}/${file_id}. Recipients now only ever get a short-lived signed URL from
+-- claim-download, after claim_download has checked the file is still available, so owners are
+-- the only ones left with direct read access.
+DROP POLICY IF EXISTS "Allow public downloads of encrypted files" ON storage.objects;
+DROP POLICY IF EXISTS "Public access to encrypted files via file_id" ON storage.objects;
+
+UPDATE storage.buckets
+SET public = false
+WHERE id = 'encrypted-files';
+
+-- Per-file rate limit on download claims, so ciphertexts can't be pulled in bulk
+-- A fixed one-minute window per file; rows go with the file
+CREATE TABLE public.download_rate_limits (
+  file_id TEXT PRIMARY KEY REFERENCES public.encrypted_files(file_id) ON DELETE CASCADE,
+  window_start TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  claims INTEGER NOT NULL DEFAULT 0
+);
+
+-- Only claim_download touches it
+ALTER TABLE public.download_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- claim_download as before, but refusing with rate_limited once a file has been claimed 30
+-- times within a minute. Refused claims count towards the window too.
+CREATE OR REPLACE FUNCTION public.claim_download(p_file_id text)
+RETURNS TABLE(status text, object_path text, metadata text, downloads integer)
+LANGUAGE plpgsql
+VOLATILE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  claimed RECORD;
+  file_record RECORD;
+  recent_claims integer;
+BEGIN
+  SELECT ef.expires_at
+  INTO file_record
+  FROM public.encrypted_files ef
+  WHERE ef.file_id = p_file_id;
+
+  -- Checked before rate limiting, so unknown IDs never get a row
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::text, NULL::text, NULL::text, NULL::integer;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.download_rate_limits AS rl (file_id, window_start, claims)
+  VALUES (p_file_id, now(), 1)
+  ON CONFLICT (file_id) DO UPDATE
+  SET window_start = CASE WHEN rl.window_start <= now() - interval '1 minute' THEN now() ELSE rl.window_start END,
+      claims = CASE WHEN rl.window_start <= now() - interval '1 minute' THEN 1 ELSE rl.claims + 1 END
+  RETURNING rl.claims INTO recent_claims;
+
+  IF recent_claims > 30 THEN
+    RETURN QUERY SELECT 'rate_limited'::text, NULL::text, NULL::text, NULL::integer;
+    RETURN;
+  END IF;
+
+  UPDATE public.encrypted_files ef
+  SET download_count = ef.download_count + 1
+  WHERE ef.file_id = p_file_id
+    AND (ef.expires_at IS NULL OR ef.expires_at > now())
+    AND (ef.max_downloads IS NULL OR ef.download_count < ef.max_downloads)
+  RETURNING ef.storage_path,
+            COALESCE(ef.encrypted_metadata->>'encryptedMetadata', ef.encrypted_filename) AS encrypted_metadata,
+            ef.download_count
+  INTO claimed;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT 'ok'::text, claimed.storage_path, claimed.encrypted_metadata, claimed.download_count;
+  ELSIF file_record.expires_at IS NOT NULL AND file_record.expires_at <= now() THEN
+    RETURN QUERY SELECT 'expired'::text, NULL::text, NULL::text, NULL::integer;
+  ELSE
+    RETURN QUERY SELECT 'limit_reached'::text, NULL::text, NULL::text, NULL::integer;
+  END IF;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_download(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_download(text) TO service_role;
@@ -0,0 +1,230 @@
+-- Share links
+-- Any number of links per file, each with its own expiry, download limit and optional
+-- password. A link carries a random secret in its fragment; the file key is wrapped
+-- client-side under that secret (and the password, for password links) and only the wrapped
+-- copy is stored here, so deleting a link's row revokes that link alone. Labels and link
+-- secrets live in the owner's encrypted file list, never here.
+CREATE TABLE public.share_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_id TEXT NOT NULL REFERENCES public.encrypted_files(file_id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL,
+  wrapped_key TEXT NOT NULL,
+  kdf_params TEXT, -- Password links only, as for share_kdf_params on encrypted_files
+  auth_hash TEXT, -- Password links only
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  max_downloads INTEGER,
+  download_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view their share links"
+ON public.share_links
+FOR SELECT
+USING (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can create links to their own files"
+ON public.share_links
+FOR INSERT
+WITH CHECK (
+  auth.uid() = owner_id
+  AND EXISTS (
+    SELECT 1 FROM public.encrypted_files ef
+    WHERE ef.file_id = share_links.file_id AND ef.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Owners can revoke their share links"
+ON public.share_links
+FOR DELETE
+USING (auth.uid() = owner_id);
+
+CREATE INDEX idx_share_links_file_id ON public.share_links(file_id);
+
+-- Whether a link can be opened, and what the recipient needs to open it: the wrapped key for
+-- plain links, the KDF parameters for password links (the key then comes from
+-- unlock_share_link). Counts nothing.
+CREATE OR REPLACE FUNCTION public.open_share_link(p_link_id uuid)
+RETURNS TABLE(status text, wrapped_key text, kdf_params text)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  link_record RECORD;
+BEGIN
+  SELECT sl.wrapped_key, sl.kdf_params, sl.auth_hash,
+         sl.expires_at, sl.max_downloads, sl.download_count,
+         ef.expires_at AS file_expires_at, ef.max_downloads AS file_max_downloads,
+         ef.download_count AS file_download_count
+  INTO link_record
+  FROM public.share_links sl
+  JOIN public.encrypted_files ef ON ef.file_id = sl.file_id
+  WHERE sl.id = p_link_id;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::text, NULL::text, NULL::text;
+  ELSIF (link_record.expires_at IS NOT NULL AND link_record.expires_at <= now())
+     OR (link_record.file_expires_at IS NOT NULL AND link_record.file_expires_at <= now()) THEN
+    RETURN QUERY SELECT 'expired'::text, NULL::text, NULL::text;
+  ELSIF (link_record.max_downloads IS NOT NULL AND link_record.download_count >= link_record.max_downloads)
+     OR (link_record.file_max_downloads IS NOT NULL AND link_record.file_download_count >= link_record.file_max_downloads) THEN
+    RETURN QUERY SELECT 'limit_reached'::text, NULL::text, NULL::text;
+  ELSIF link_record.auth_hash IS NOT NULL THEN
+    RETURN QUERY SELECT 'password_required'::text, NULL::text, link_record.kdf_params;
+  ELSE
+    RETURN QUERY SELECT 'ok'::text, link_record.wrapped_key, NULL::text;
+  END IF;
+END;
+$function$;
+
+-- Release a password link's wrapped key if the auth token matches
+-- Same lockout as unlock_password_share, counted per link
+CREATE OR REPLACE FUNCTION public.unlock_share_link(p_link_id uuid, p_auth_token text)
+RETURNS TABLE(status text, wrapped_key text, attempts_remaining integer)
+LANGUAGE plpgsql
+VOLATILE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  link_record RECORD;
+  failures INTEGER;
+BEGIN
+  SELECT sl.wrapped_key, sl.auth_hash, sl.failed_attempts, sl.locked_until
+  INTO link_record
+  FROM public.share_links sl
+  WHERE sl.id = p_link_id
+    AND sl.auth_hash IS NOT NULL
+    AND (sl.expires_at IS NULL OR sl.expires_at > now())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::text, NULL::text, 0;
+    RETURN;
+  END IF;
+
+  IF link_record.failed_attempts >= 20
+     OR (link_record.locked_until IS NOT NULL AND link_record.locked_until > now()) THEN
+    RETURN QUERY SELECT 'locked'::text, NULL::text, 0;
+    RETURN;
+  END IF;
+
+  IF encode(digest(p_auth_token, 'sha256'), 'hex') = link_record.auth_hash THEN
+    UPDATE public.share_links
+    SET failed_attempts = 0, locked_until = NULL
+    WHERE id = p_link_id;
+
+    RETURN QUERY SELECT 'ok'::text, link_record.wrapped_key, 5;
+    RETURN;
+  END IF;
+
+  failures := link_record.failed_attempts + 1;
+  UPDATE public.share_links
+  SET failed_attempts = failures,
+      locked_until = CASE WHEN failures % 5 = 0 THEN now() + interval '15 minutes' ELSE NULL END
+  WHERE id = p_link_id;
+
+  IF failures % 5 = 0 THEN
+    RETURN QUERY SELECT 'locked'::text, NULL::text, 0;
+  ELSE
+    RETURN QUERY SELECT 'invalid'::text, NULL::text, 5 - failures % 5;
+  END IF;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.open_share_link(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.unlock_share_link(uuid, text) TO anon, authenticated;
+
+-- claim_download, now also claiming through a share link when one is given
+-- The link row is locked while the file's own limits are checked, so a download is either
+-- counted against both or neither.
+DROP FUNCTION IF EXISTS public.claim_download(text);
+
+CREATE FUNCTION public.claim_download(p_file_id text, p_link_id uuid DEFAULT NULL)
+RETURNS TABLE(status text, object_path text, metadata text, downloads integer)
+LANGUAGE plpgsql
+VOLATILE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  claimed RECORD;
+  file_record RECORD;
+  link_record RECORD;
+  recent_claims integer;
+BEGIN
+  SELECT ef.expires_at
+  INTO file_record
+  FROM public.encrypted_files ef
+  WHERE ef.file_id = p_file_id;
+
+  -- Checked before rate limiting, so unknown IDs never get a row
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::text, NULL::text, NULL::text, NULL::integer;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.download_rate_limits AS rl (file_id, window_start, claims)
+  VALUES (p_file_id, now(), 1)
+  ON CONFLICT (file_id) DO UPDATE
+  SET window_start = CASE WHEN rl.window_start <= now() - interval '1 minute' THEN now() ELSE rl.window_start END,
+      claims = CASE WHEN rl.window_start <= now() - interval '1 minute' THEN 1 ELSE rl.claims + 1 END
+  RETURNING rl.claims INTO recent_claims;
+
+  IF recent_claims > 30 THEN
+    RETURN QUERY SELECT 'rate_limited'::text, NULL::text, NULL::text, NULL::integer;
+    RETURN;
+  END IF;
+
+  IF p_link_id IS NOT NULL THEN
+    SELECT sl.expires_at, sl.max_downloads, sl.download_count
+    INTO link_record
+    FROM public.share_links sl
+    WHERE sl.id = p_link_id AND sl.file_id = p_file_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN QUERY SELECT 'not_found'::text, NULL::text, NULL::text, NULL::integer;
+      RETURN;
+    ELSIF link_record.expires_at IS NOT NULL AND link_record.expires_at <= now() THEN
+      RETURN QUERY SELECT 'expired'::text, NULL::text, NULL::text, NULL::integer;
+      RETURN;
+    ELSIF link_record.max_downloads IS NOT NULL AND link_record.download_count >= link_record.max_downloads THEN
+      RETURN QUERY SELECT 'limit_reached'::text, NULL::text, NULL::text, NULL::integer;
+      RETURN;
+    END IF;
+  END IF;
+
+  UPDATE public.encrypted_files ef
+  SET download_count = ef.download_count + 1
+  WHERE ef.file_id = p_file_id
+    AND (ef.expires_at IS NULL OR ef.expires_at > now())
+    AND (ef.max_downloads IS NULL OR ef.download_count < ef.max_downloads)
+  RETURNING ef.storage_path,
+            COALESCE(ef.encrypted_metadata->>'encryptedMetadata', ef.encrypted_filename) AS encrypted_metadata,
+            ef.download_count
+  INTO claimed;
+
+  IF NOT FOUND THEN
+    IF file_record.expires_at IS NOT NULL AND file_record.expires_at <= now() THEN
+      RETURN QUERY SELECT 'expired'::text, NULL::text, NULL::text, NULL::integer;
+    ELSE
+      RETURN QUERY SELECT 'limit_reached'::text, NULL::text, NULL::text, NULL::integer;
+    END IF;
+    RETURN;
+  END IF;
+
+  IF p_link_id IS NOT NULL THEN
+    UPDATE public.share_links
+    SET download_count = download_count + 1
+    WHERE id = p_link_id;
+  END IF;
+
+  RETURN QUERY SELECT 'ok'::text, claimed.storage_path, claimed.encrypted_metadata, claimed.download_count;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_download(text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_download(text, uuid) TO service_role;
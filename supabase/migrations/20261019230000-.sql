@@ -0,0 +1,15 @@
+-- Let owners re-share a file with an account it is already shared with
+-- shareFileWithUser upserts on (file_id, recipient_id), which needs UPDATE as well as INSERT.
+-- Re-sharing re-wraps the key to the recipient's current public key, the only way to repair a
+-- share after the recipient resets their vault.
+CREATE POLICY "Owners can re-share their own files"
+ON public.file_shares
+FOR UPDATE
+USING (auth.uid() = owner_id)
+WITH CHECK (
+  auth.uid() = owner_id
+  AND EXISTS (
+    SELECT 1 FROM public.encrypted_files ef
+    WHERE ef.file_id = file_shares.file_id AND ef.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,34 @@
+-- Keep the signing key each upload was signed with
+-- A vault reset publishes a new signing key, and files signed before it were checked against
+-- the new key and failed. Each signed file now records the key it was signed with; existing
+-- signatures get the key currently on the owner's profile (signatures from before an earlier
+-- reset can't be recovered). New uploads also record the key in their encrypted metadata,
+-- which the download page prefers, so the server can't swap it or strip the signature unseen.
+ALTER TABLE public.encrypted_files
+  ADD COLUMN signing_public_key TEXT;
+
+UPDATE public.encrypted_files ef
+SET signing_public_key = p.signing_public_key
+FROM public.profiles p
+WHERE p.user_id = ef.user_id
+  AND ef.signature IS NOT NULL
+  AND ef.signing_public_key IS NULL;
+
+-- get_file_signer, now returning the key the file was signed with and the owner's current one
+DROP FUNCTION IF EXISTS public.get_file_signer(text);
+
+CREATE FUNCTION public.get_file_signer(p_file_id text)
+RETURNS TABLE(signature text, full_name text, signing_public_key text, current_signing_key text)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT ef.signature, p.full_name,
+         COALESCE(ef.signing_public_key, p.signing_public_key),
+         p.signing_public_key
+  FROM public.encrypted_files ef
+  LEFT JOIN public.profiles p ON p.user_id = ef.user_id
+  WHERE ef.file_id = p_file_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_file_signer(text) TO anon, authenticated;
@@ -0,0 +1,115 @@
+-- Share links are the only way in for link recipients once a file has any
+-- Someone who opened a share link holds the file key and the file id, and could claim the
+-- file without the link, skipping that link's expiry, download limit and revocation. Once a
+-- file has share links, claims without one are refused, except from the owner and from
+-- accounts the file is shared with directly (they have their own revocation in file_shares).
+-- Claims through a link also have to show a token derived from the link secret, which only
+-- travels in the link's fragment; its hash is stored with the link. Links created before this
+-- have no hash and are still claimed by id alone.
+ALTER TABLE public.share_links
+  ADD COLUMN claim_hash TEXT;
+
+DROP FUNCTION IF EXISTS public.claim_download(text, uuid);
+
+CREATE FUNCTION public.claim_download(
+  p_file_id text,
+  p_link_id uuid DEFAULT NULL,
+  p_link_token text DEFAULT NULL,
+  p_user_id uuid DEFAULT NULL
+)
+RETURNS TABLE(status text, object_path text, metadata text, downloads integer)
+LANGUAGE plpgsql
+VOLATILE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  claimed RECORD;
+  file_record RECORD;
+  link_record RECORD;
+  recent_claims integer;
+BEGIN
+  SELECT ef.expires_at, ef.user_id
+  INTO file_record
+  FROM public.encrypted_files ef
+  WHERE ef.file_id = p_file_id;
+
+  -- Checked before rate limiting, so unknown IDs never get a row
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::text, NULL::text, NULL::text, NULL::integer;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.download_rate_limits AS rl (file_id, window_start, claims)
+  VALUES (p_file_id, now(), 1)
+  ON CONFLICT (file_id) DO UPDATE
+  SET window_start = CASE WHEN rl.window_start <= now() - interval '1 minute' THEN now() ELSE rl.window_start END,
+      claims = CASE WHEN rl.window_start <= now() - interval '1 minute' THEN 1 ELSE rl.claims + 1 END
+  RETURNING rl.claims INTO recent_claims;
+
+  IF recent_claims > 30 THEN
+    RETURN QUERY SELECT 'rate_limited'::text, NULL::text, NULL::text, NULL::integer;
+    RETURN;
+  END IF;
+
+  IF p_link_id IS NULL THEN
+    IF EXISTS (SELECT 1 FROM public.share_links sl WHERE sl.file_id = p_file_id)
+       AND p_user_id IS DISTINCT FROM file_record.user_id
+       AND NOT EXISTS (
+         SELECT 1 FROM public.file_shares fs
+         WHERE fs.file_id = p_file_id AND fs.recipient_id = p_user_id
+       ) THEN
+      RETURN QUERY SELECT 'link_required'::text, NULL::text, NULL::text, NULL::integer;
+      RETURN;
+    END IF;
+  ELSE
+    SELECT sl.expires_at, sl.max_downloads, sl.download_count, sl.claim_hash
+    INTO link_record
+    FROM public.share_links sl
+    WHERE sl.id = p_link_id AND sl.file_id = p_file_id
+    FOR UPDATE;
+
+    IF NOT FOUND
+       OR (link_record.claim_hash IS NOT NULL
+           AND (p_link_token IS NULL OR encode(digest(p_link_token, 'sha256'), 'hex') <> link_record.claim_hash)) THEN
+      RETURN QUERY SELECT 'not_found'::text, NULL::text, NULL::text, NULL::integer;
+      RETURN;
+    ELSIF link_record.expires_at IS NOT NULL AND link_record.expires_at <= now() THEN
+      RETURN QUERY SELECT 'expired'::text, NULL::text, NULL::text, NULL::integer;
+      RETURN;
+    ELSIF link_record.max_downloads IS NOT NULL AND link_record.download_count >= link_record.max_downloads THEN
+      RETURN QUERY SELECT 'limit_reached'::text, NULL::text, NULL::text, NULL::integer;
+      RETURN;
+    END IF;
+  END IF;
+
+  UPDATE public.encrypted_files ef
+  SET download_count = ef.download_count + 1
+  WHERE ef.file_id = p_file_id
+    AND (ef.expires_at IS NULL OR ef.expires_at > now())
+    AND (ef.max_downloads IS NULL OR ef.download_count < ef.max_downloads)
+  RETURNING ef.storage_path,
+            COALESCE(ef.encrypted_metadata->>'encryptedMetadata', ef.encrypted_filename) AS encrypted_metadata,
+            ef.download_count
+  INTO claimed;
+
+  IF NOT FOUND THEN
+    IF file_record.expires_at IS NOT NULL AND file_record.expires_at <= now() THEN
+      RETURN QUERY SELECT 'expired'::text, NULL::text, NULL::text, NULL::integer;
+    ELSE
+      RETURN QUERY SELECT 'limit_reached'::text, NULL::text, NULL::text, NULL::integer;
+    END IF;
+    RETURN;
+  END IF;
+
+  IF p_link_id IS NOT NULL THEN
+    UPDATE public.share_links
+    SET download_count = download_count + 1
+    WHERE id = p_link_id;
+  END IF;
+
+  RETURN QUERY SELECT 'ok'::text, claimed.storage_path, claimed.encrypted_metadata, claimed.download_count;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_download(text, uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_download(text, uuid, text, uuid) TO service_role;
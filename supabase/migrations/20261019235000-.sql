@@ -0,0 +1,210 @@
+-- Count share link downloads against the link alone
+-- Claims through a link also used up the file's own download limit, so links capped each other
+-- and the file's main link. A link's downloads now only count against the link, and the file's
+-- own limit applies to downloads without one. The file's expiry still ends every link: it is
+-- when the file is purged, and links can't be created to outlive it (createShareLink).
+CREATE OR REPLACE FUNCTION public.claim_download(
+  p_file_id text,
+  p_link_id uuid DEFAULT NULL,
+  p_link_token text DEFAULT NULL,
+  p_user_id uuid DEFAULT NULL
+)
+RETURNS TABLE(status text, object_path text, metadata text, downloads integer)
+LANGUAGE plpgsql
+VOLATILE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  claimed RECORD;
+  file_record RECORD;
+  link_record RECORD;
+  recent_claims integer;
+BEGIN
+  SELECT ef.expires_at, ef.user_id, ef.storage_path,
+         COALESCE(ef.encrypted_metadata->>'encryptedMetadata', ef.encrypted_filename) AS encrypted_metadata
+  INTO file_record
+  FROM public.encrypted_files ef
+  WHERE ef.file_id = p_file_id;
+
+  -- Checked before rate limiting, so unknown IDs never get a row
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::text, NULL::text, NULL::text, NULL::integer;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.download_rate_limits AS rl (file_id, window_start, claims)
+  VALUES (p_file_id, now(), 1)
+  ON CONFLICT (file_id) DO UPDATE
+  SET window_start = CASE WHEN rl.window_start <= now() - interval '1 minute' THEN now() ELSE rl.window_start END,
+      claims = CASE WHEN rl.window_start <= now() - interval '1 minute' THEN 1 ELSE rl.claims + 1 END
+  RETURNING rl.claims INTO recent_claims;
+
+  IF recent_claims > 30 THEN
+    RETURN QUERY SELECT 'rate_limited'::text, NULL::text, NULL::text, NULL::integer;
+    RETURN;
+  END IF;
+
+  IF p_link_id IS NOT NULL THEN
+    SELECT sl.expires_at, sl.max_downloads, sl.download_count, sl.claim_hash
+    INTO link_record
+    FROM public.share_links sl
+    WHERE sl.id = p_link_id AND sl.file_id = p_file_id
+    FOR UPDATE;
+
+    IF NOT FOUND
+       OR (link_record.claim_hash IS NOT NULL
+           AND (p_link_token IS NULL OR encode(digest(p_link_token, 'sha256'), 'hex') <> link_record.claim_hash)) THEN
+      RETURN QUERY SELECT 'not_found'::text, NULL::text, NULL::text, NULL::integer;
+    ELSIF (link_record.expires_at IS NOT NULL AND link_record.expires_at <= now())
+       OR (file_record.expires_at IS NOT NULL AND file_record.expires_at <= now()) THEN
+      RETURN QUERY SELECT 'expired'::text, NULL::text, NULL::text, NULL::integer;
+    ELSIF link_record.max_downloads IS NOT NULL AND link_record.download_count >= link_record.max_downloads THEN
+      RETURN QUERY SELECT 'limit_reached'::text, NULL::text, NULL::text, NULL::integer;
+    ELSE
+      UPDATE public.share_links sl
+      SET download_count = sl.download_count + 1
+      WHERE sl.id = p_link_id
+      RETURNING sl.download_count INTO claimed;
+
+      -- Bumps updated_at, which holds an exhausted file back from the purge for an hour
+      UPDATE public.encrypted_files
+      SET updated_at = now()
+      WHERE file_id = p_file_id;
+
+      RETURN QUERY SELECT 'ok'::text, file_record.storage_path, file_record.encrypted_metadata, claimed.download_count;
+    END IF;
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.share_links sl WHERE sl.file_id = p_file_id)
+     AND p_user_id IS DISTINCT FROM file_record.user_id
+     AND NOT EXISTS (
+       SELECT 1 FROM public.file_shares fs
+       WHERE fs.file_id = p_file_id AND fs.recipient_id = p_user_id
+     ) THEN
+    RETURN QUERY SELECT 'link_required'::text, NULL::text, NULL::text, NULL::integer;
+    RETURN;
+  END IF;
+
+  UPDATE public.encrypted_files ef
+  SET download_count = ef.download_count + 1
+  WHERE ef.file_id = p_file_id
+    AND (ef.expires_at IS NULL OR ef.expires_at > now())
+    AND (ef.max_downloads IS NULL OR ef.download_count < ef.max_downloads)
+  RETURNING ef.download_count
+  INTO claimed;
+
+  IF NOT FOUND THEN
+    IF file_record.expires_at IS NOT NULL AND file_record.expires_at <= now() THEN
+      RETURN QUERY SELECT 'expired'::text, NULL::text, NULL::text, NULL::integer;
+    ELSE
+      RETURN QUERY SELECT 'limit_reached'::text, NULL::text, NULL::text, NULL::integer;
+    END IF;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT 'ok'::text, file_record.storage_path, file_record.encrypted_metadata, claimed.download_count;
+END;
+$function$;
+
+-- open_share_link, no longer refusing links once the file's own limit is used up
+CREATE OR REPLACE FUNCTION public.open_share_link(p_link_id uuid)
+RETURNS TABLE(status text, wrapped_key text, kdf_params text)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  link_record RECORD;
+BEGIN
+  SELECT sl.wrapped_key, sl.kdf_params, sl.auth_hash,
+         sl.expires_at, sl.max_downloads, sl.download_count,
+         ef.expires_at AS file_expires_at
+  INTO link_record
+  FROM public.share_links sl
+  JOIN public.encrypted_files ef ON ef.file_id = sl.file_id
+  WHERE sl.id = p_link_id;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::text, NULL::text, NULL::text;
+  ELSIF (link_record.expires_at IS NOT NULL AND link_record.expires_at <= now())
+     OR (link_record.file_expires_at IS NOT NULL AND link_record.file_expires_at <= now()) THEN
+    RETURN QUERY SELECT 'expired'::text, NULL::text, NULL::text;
+  ELSIF link_record.max_downloads IS NOT NULL AND link_record.download_count >= link_record.max_downloads THEN
+    RETURN QUERY SELECT 'limit_reached'::text, NULL::text, NULL::text;
+  ELSIF link_record.auth_hash IS NOT NULL THEN
+    RETURN QUERY SELECT 'password_required'::text, NULL::text, link_record.kdf_params;
+  ELSE
+    RETURN QUERY SELECT 'ok'::text, link_record.wrapped_key, NULL::text;
+  END IF;
+END;
+$function$;
+
+-- get_shared_file, checking the link's limits instead of the file's when given one
+DROP FUNCTION IF EXISTS public.get_shared_file(text);
+
+CREATE FUNCTION public.get_shared_file(p_file_id text, p_link_id uuid DEFAULT NULL)
+RETURNS TABLE(status text, encrypted_metadata text, padded_size bigint)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  file_record RECORD;
+BEGIN
+  SELECT ef.expires_at,
+         COALESCE(sl.max_downloads, CASE WHEN p_link_id IS NULL THEN ef.max_downloads END) AS max_downloads,
+         COALESCE(sl.download_count, ef.download_count) AS download_count,
+         sl.expires_at AS link_expires_at,
+         ef.file_size,
+         COALESCE(ef.encrypted_metadata->>'encryptedMetadata', ef.encrypted_filename) AS encrypted_metadata
+  INTO file_record
+  FROM public.encrypted_files ef
+  LEFT JOIN public.share_links sl ON sl.id = p_link_id AND sl.file_id = ef.file_id
+  WHERE ef.file_id = p_file_id
+    AND (p_link_id IS NULL OR sl.id IS NOT NULL);
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT 'not_found'::text, NULL::text, NULL::bigint;
+  ELSIF (file_record.expires_at IS NOT NULL AND file_record.expires_at <= now())
+     OR (file_record.link_expires_at IS NOT NULL AND file_record.link_expires_at <= now()) THEN
+    RETURN QUERY SELECT 'expired'::text, NULL::text, NULL::bigint;
+  ELSIF file_record.max_downloads IS NOT NULL AND file_record.download_count >= file_record.max_downloads THEN
+    RETURN QUERY SELECT 'limit_reached'::text, NULL::text, NULL::bigint;
+  ELSE
+    RETURN QUERY SELECT 'available'::text, file_record.encrypted_metadata, file_record.file_size;
+  END IF;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.get_shared_file(text, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_shared_file(text, uuid) TO anon, authenticated;
+
+-- purgeable_files, keeping files that used up their own limit while a share link is still live
+CREATE OR REPLACE FUNCTION public.purgeable_files(p_limit integer DEFAULT 500)
+RETURNS TABLE(file_id text, user_id uuid, storage_path text, reason text)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  SELECT ef.file_id,
+         ef.user_id,
+         ef.storage_path,
+         CASE WHEN ef.expires_at IS NOT NULL AND ef.expires_at <= now() THEN 'expired' ELSE 'limit_reached' END
+  FROM public.encrypted_files ef
+  WHERE (ef.expires_at IS NOT NULL AND ef.expires_at <= now())
+     OR (ef.max_downloads IS NOT NULL
+         AND ef.download_count >= ef.max_downloads
+         AND ef.updated_at <= now() - interval '1 hour'
+         AND NOT EXISTS (
+           SELECT 1 FROM public.share_links sl
+           WHERE sl.file_id = ef.file_id
+             AND (sl.expires_at IS NULL OR sl.expires_at > now())
+             AND (sl.max_downloads IS NULL OR sl.download_count < sl.max_downloads)
+         ))
+  ORDER BY ef.created_at
+  LIMIT p_limit;
+END;
+$function$;
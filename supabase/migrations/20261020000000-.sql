@@ -0,0 +1,21 @@
+-- Whether an account may still sign in with the password as typed
+-- Accounts created before sign-ins used a derived password (see authPassword.ts) are moved over
+-- on their next sign-in, which sets auth_password_derived in their user metadata; new accounts
+-- get it at sign-up. Until then the client needs to know, before signing in, whether trying the
+-- typed password is worth it, so this answers for an email without a session. Only accounts
+-- that haven't been moved answer true, so every other email, registered or not, looks the same.
+CREATE OR REPLACE FUNCTION public.has_legacy_auth_password(p_email text)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM auth.users u
+    WHERE lower(u.email) = lower(trim(p_email))
+      AND COALESCE((u.raw_user_meta_data->>'auth_password_derived')::boolean, false) = false
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.has_legacy_auth_password(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.has_legacy_auth_password(text) TO anon, authenticated;
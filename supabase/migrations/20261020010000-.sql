@@ -0,0 +1,38 @@
+-- Give direct-share recipients only what their dashboard needs
+-- The SELECT policy on encrypted_files let recipients read whole rows of files shared with them,
+-- including the storage path and the owner's password share (wrapped key, auth hash, KDF
+-- parameters). get_files_shared_with_me returns the caller's shares with just the encrypted
+-- metadata and the limits to show; downloads go through claim-download as for everyone else.
+DROP POLICY IF EXISTS "Recipients can view files shared with them" ON public.encrypted_files;
+
+CREATE OR REPLACE FUNCTION public.get_files_shared_with_me()
+RETURNS TABLE(
+  file_id text,
+  owner_id uuid,
+  wrapped_key text,
+  shared_at timestamp with time zone,
+  encrypted_metadata text,
+  expires_at timestamp with time zone,
+  max_downloads integer,
+  download_count integer
+)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT fs.file_id,
+         fs.owner_id,
+         fs.wrapped_key,
+         fs.created_at,
+         COALESCE(ef.encrypted_metadata->>'encryptedMetadata', ef.encrypted_filename),
+         ef.expires_at,
+         ef.max_downloads,
+         ef.download_count
+  FROM public.file_shares fs
+  JOIN public.encrypted_files ef ON ef.file_id = fs.file_id
+  WHERE fs.recipient_id = auth.uid()
+  ORDER BY fs.created_at DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_files_shared_with_me() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_files_shared_with_me() TO authenticated;